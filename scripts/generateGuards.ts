@@ -0,0 +1,642 @@
+import * as ts from 'typescript';
+import { assertNever } from '../src/utils';
+
+// Generates runtime type guards for interfaces and type aliases, so guards
+// like isBird() or isKind() can't drift apart from the declared types.
+//
+// Usage: ts-node scripts/generateGuards.ts [--check] [output directory] [source files...]
+//
+// Writes two files to the output directory:
+// - guards.ts:      a copy of the declarations and an isX() guard for each.
+// - guards.test.ts: checks each guard against generated sample values.
+//
+// With --check nothing is written, it fails if the files in the output
+// directory differ from the generated ones, e.g. after a lesson type changed.
+
+const defaultOutputDirectory: string = 'src/generated';
+const defaultSources: string[] = [
+    'src/02-union-types-and-type-guards.ts',
+    'src/04-non-nullable-types.ts',
+    'src/05-never-and-literal-types.ts',
+    'src/06-discriminated-unions.ts',
+    'src/07-index-types.ts'
+];
+
+type TypeModel =
+    | { kind: 'keyword'; keyword: 'string' | 'number' | 'boolean' | 'undefined' | 'null' | 'any' | 'object' | 'function'; }
+    | { kind: 'literal'; value: string | number | boolean; }
+    | { kind: 'union'; members: TypeModel[]; }
+    | { kind: 'array'; element: TypeModel; }
+    | ObjectModel
+    | { kind: 'reference'; name: string; }
+    ;
+
+interface ObjectModel {
+    kind: 'object';
+    // Names of the extended interfaces.
+    bases: string[];
+    properties: PropertyModel[];
+    indexer?: TypeModel;
+}
+
+interface PropertyModel {
+    name: string;
+    optional: boolean;
+    type: TypeModel;
+}
+
+interface Declaration {
+    name: string;
+    type: TypeModel;
+    // The declaration as written in the source, emitted into guards.ts.
+    text: string;
+}
+
+class UnsupportedTypeError extends Error {
+    constructor(node: ts.Node, reason: string) {
+        const sourceFile: ts.SourceFile = node.getSourceFile();
+        const { line } = sourceFile.getLineAndCharacterOfPosition(node.getStart());
+        // Only the first line, a skipped declaration can be long.
+        super(`${sourceFile.fileName}:${line + 1}: ${reason}: ${node.getText().split('\n')[0]}`);
+    }
+}
+
+// Reading the source
+
+function readDeclarations(fileName: string, skipped: string[]): Declaration[] {
+    const text: string | undefined = ts.sys.readFile(fileName);
+    if (text === undefined) {
+        throw new Error(`Can't read ${fileName}.`);
+    }
+
+    const sourceFile: ts.SourceFile = ts.createSourceFile(fileName, text, ts.ScriptTarget.ES2015, true);
+    const declarations: Declaration[] = [];
+
+    for (const statement of sourceFile.statements) {
+        if (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement)) {
+            const name: string = statement.name.text;
+            try {
+                const type: TypeModel = readDeclaration(statement);
+                declarations.push({ name, type, text: exported(statement) });
+            } catch (error) {
+                // Declarations using unsupported types, e.g. generics or mapped
+                // types, are skipped instead of failing the whole generation.
+                if (!(error instanceof UnsupportedTypeError)) {
+                    throw error;
+                }
+                skipped.push(`Skipped ${name}, ${error.message}`);
+            }
+        }
+    }
+
+    return declarations;
+}
+
+function readDeclaration(node: ts.InterfaceDeclaration | ts.TypeAliasDeclaration): TypeModel {
+    if (node.typeParameters !== undefined) {
+        throw new UnsupportedTypeError(node, 'Generic declarations are not supported');
+    }
+
+    return ts.isInterfaceDeclaration(node) ? readInterface(node) : readType(node.type);
+}
+
+function exported(node: ts.Node): string {
+    const text: string = node.getText();
+    return text.startsWith('export ') ? text : `export ${text}`;
+}
+
+function readInterface(node: ts.InterfaceDeclaration): TypeModel {
+    const bases: string[] = [];
+    for (const clause of node.heritageClauses || []) {
+        for (const base of clause.types) {
+            if (!ts.isIdentifier(base.expression) || base.typeArguments !== undefined) {
+                throw new UnsupportedTypeError(base, 'Only non-generic base interfaces are supported');
+            }
+            bases.push(base.expression.text);
+        }
+    }
+
+    return readObject(bases, node.members);
+}
+
+function readObject(bases: string[], members: ts.NodeArray<ts.TypeElement>): ObjectModel {
+    const model: ObjectModel = { kind: 'object', bases, properties: [] };
+    for (const member of members) {
+        if (ts.isIndexSignatureDeclaration(member)) {
+            model.indexer = member.type !== undefined ? readType(member.type) : { kind: 'keyword', keyword: 'any' };
+            continue;
+        }
+
+        if (member.name === undefined || !(ts.isIdentifier(member.name) || ts.isStringLiteral(member.name))) {
+            throw new UnsupportedTypeError(member, 'Only named properties and methods are supported');
+        }
+
+        const name: string = member.name.text;
+        const optional: boolean = member.questionToken !== undefined;
+
+        if (ts.isMethodSignature(member)) {
+            model.properties.push({ name, optional, type: { kind: 'keyword', keyword: 'function' } });
+        } else if (ts.isPropertySignature(member)) {
+            const type: TypeModel = member.type !== undefined ? readType(member.type) : { kind: 'keyword', keyword: 'any' };
+            model.properties.push({ name, optional, type });
+        } else {
+            throw new UnsupportedTypeError(member, 'Unsupported member');
+        }
+    }
+
+    return model;
+}
+
+function readType(node: ts.TypeNode): TypeModel {
+    switch (node.kind) {
+        case ts.SyntaxKind.StringKeyword: return { kind: 'keyword', keyword: 'string' };
+        case ts.SyntaxKind.NumberKeyword: return { kind: 'keyword', keyword: 'number' };
+        case ts.SyntaxKind.BooleanKeyword: return { kind: 'keyword', keyword: 'boolean' };
+        case ts.SyntaxKind.UndefinedKeyword: return { kind: 'keyword', keyword: 'undefined' };
+        case ts.SyntaxKind.VoidKeyword: return { kind: 'keyword', keyword: 'undefined' };
+        case ts.SyntaxKind.NullKeyword: return { kind: 'keyword', keyword: 'null' };
+        case ts.SyntaxKind.AnyKeyword: return { kind: 'keyword', keyword: 'any' };
+        case ts.SyntaxKind.ObjectKeyword: return { kind: 'keyword', keyword: 'object' };
+    }
+
+    if (ts.isParenthesizedTypeNode(node)) {
+        return readType(node.type);
+    }
+
+    if (ts.isFunctionTypeNode(node)) {
+        return { kind: 'keyword', keyword: 'function' };
+    }
+
+    if (ts.isLiteralTypeNode(node)) {
+        return readLiteral(node);
+    }
+
+    if (ts.isUnionTypeNode(node)) {
+        return { kind: 'union', members: node.types.map(readType) };
+    }
+
+    if (ts.isArrayTypeNode(node)) {
+        return { kind: 'array', element: readType(node.elementType) };
+    }
+
+    if (ts.isTypeLiteralNode(node)) {
+        return readObject([], node.members);
+    }
+
+    if (ts.isTypeReferenceNode(node) && ts.isIdentifier(node.typeName)) {
+        const typeArguments: ts.NodeArray<ts.TypeNode> | undefined = node.typeArguments;
+        if (node.typeName.text === 'Array' && typeArguments !== undefined && typeArguments.length === 1) {
+            return { kind: 'array', element: readType(typeArguments[0]) };
+        }
+
+        if (typeArguments === undefined) {
+            return { kind: 'reference', name: node.typeName.text };
+        }
+    }
+
+    throw new UnsupportedTypeError(node, 'Unsupported type');
+}
+
+function readLiteral(node: ts.LiteralTypeNode): TypeModel {
+    const literal: ts.Node = node.literal;
+    switch (literal.kind) {
+        case ts.SyntaxKind.StringLiteral:
+            return { kind: 'literal', value: (literal as ts.StringLiteral).text };
+
+        case ts.SyntaxKind.NumericLiteral:
+            return { kind: 'literal', value: Number((literal as ts.NumericLiteral).text) };
+
+        case ts.SyntaxKind.TrueKeyword:
+            return { kind: 'literal', value: true };
+
+        case ts.SyntaxKind.FalseKeyword:
+            return { kind: 'literal', value: false };
+
+        case ts.SyntaxKind.NullKeyword:
+            return { kind: 'keyword', keyword: 'null' };
+
+        case ts.SyntaxKind.PrefixUnaryExpression: {
+            const expression: ts.PrefixUnaryExpression = literal as ts.PrefixUnaryExpression;
+            if (expression.operator === ts.SyntaxKind.MinusToken && ts.isNumericLiteral(expression.operand)) {
+                return { kind: 'literal', value: -Number(expression.operand.text) };
+            }
+        }
+    }
+
+    throw new UnsupportedTypeError(node, 'Unsupported literal type');
+}
+
+// Emitting the guards
+
+function isIdentifierName(name: string): boolean {
+    return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name);
+}
+
+// Like JSON.stringify(), but with single quoted strings.
+function literalCode(value: string | number | boolean | null | undefined): string {
+    if (typeof value === 'string') {
+        return `'${value.replace(/\\/g, '\\\\').replace(/'/g, '\\\'').replace(/\n/g, '\\n')}'`;
+    }
+
+    return String(value);
+}
+
+function accessProperty(expression: string, name: string): string {
+    return isIdentifierName(name) ? `${expression}.${name}` : `${expression}[${literalCode(name)}]`;
+}
+
+function emitCheck(type: TypeModel, expression: string, depth: number = 0): string {
+    switch (type.kind) {
+        case 'keyword':
+            switch (type.keyword) {
+                case 'any': return 'true';
+                case 'null': return `${expression} === null`;
+                case 'object': return `(typeof ${expression} === 'object' && ${expression} !== null)`;
+                default: return `typeof ${expression} === '${type.keyword}'`;
+            }
+
+        case 'literal':
+            return `${expression} === ${literalCode(type.value)}`;
+
+        case 'union':
+            return `(${type.members.map(member => emitCheck(member, expression, depth)).join(' || ')})`;
+
+        case 'array': {
+            const item: string = `item${depth}`;
+            return `(Array.isArray(${expression}) && ` +
+                `${expression}.every((${item}: any) => ${emitCheck(type.element, item, depth + 1)}))`;
+        }
+
+        case 'object':
+            return `(${emitObjectChecks(type, expression, depth).join(' && ')})`;
+
+        case 'reference':
+            return `is${type.name}(${expression})`;
+
+        default:
+            return assertNever(type);
+    }
+}
+
+function emitObjectChecks(type: ObjectModel, expression: string, depth: number): string[] {
+    const checks: string[] = [
+        `typeof ${expression} === 'object'`,
+        `${expression} !== null`,
+        ...type.bases.map(base => `is${base}(${expression})`),
+        ...type.properties.map(property => {
+            const access: string = accessProperty(expression, property.name);
+            const check: string = emitCheck(property.type, access, depth);
+            return property.optional ? `(${access} === undefined || ${check})` : check;
+        })
+    ];
+
+    if (type.indexer !== undefined) {
+        const key: string = `key${depth}`;
+        checks.push(`Object.keys(${expression}).every((${key}: string) => ` +
+            `${emitCheck(type.indexer, `${expression}[${key}]`, depth + 1)})`);
+    }
+
+    return checks;
+}
+
+function emitGuard(declaration: Declaration): string {
+    // Interfaces get one property per line.
+    const type: TypeModel = declaration.type;
+    const check: string = type.kind === 'object'
+        ? emitObjectChecks(type, 'value', 0).join('\n        && ')
+        : emitCheck(type, 'value');
+
+    return [
+        `export function is${declaration.name}(value: any): value is ${declaration.name} {`,
+        `    return ${check};`,
+        `}`
+    ].join('\n');
+}
+
+// Sample values for the test. The expected results are computed by
+// interpreting the type model, independent of the emitted guard code.
+
+interface Sample {
+    code: string;
+    value: any;
+}
+
+type DeclarationMap = { [name: string]: Declaration | undefined; };
+
+const maximumSamples: number = 6;
+const maximumDepth: number = 4;
+
+function sampleOf(value: any): Sample {
+    if (Array.isArray(value)) {
+        return { code: `[${value.map(item => sampleOf(item).code).join(', ')}]`, value };
+    }
+
+    if (typeof value === 'object' && value !== null) {
+        return objectSample(value);
+    }
+
+    return { code: literalCode(value), value };
+}
+
+const functionSample: Sample = { code: '() => undefined', value: () => undefined };
+
+const invalidCandidates: Sample[] = [
+    sampleOf(null),
+    sampleOf(undefined),
+    sampleOf('not-a-valid-value'),
+    sampleOf(-1.5),
+    sampleOf(false),
+    sampleOf({}),
+    sampleOf([])
+];
+
+function validSamples(type: TypeModel, declarations: DeclarationMap, depth: number = 0): Sample[] {
+    if (depth > maximumDepth) {
+        return [];
+    }
+
+    switch (type.kind) {
+        case 'keyword':
+            switch (type.keyword) {
+                case 'string': return [sampleOf('sample'), sampleOf('')];
+                case 'number': return [sampleOf(42), sampleOf(0)];
+                case 'boolean': return [sampleOf(true), sampleOf(false)];
+                case 'undefined': return [sampleOf(undefined)];
+                case 'null': return [sampleOf(null)];
+                case 'any': return [sampleOf('anything')];
+                case 'object': return [sampleOf({})];
+                case 'function': return [functionSample];
+                default: return assertNever(type.keyword);
+            }
+
+        case 'literal':
+            return [sampleOf(type.value)];
+
+        case 'union':
+            return type.members
+                .map(member => validSamples(member, declarations, depth + 1)[0])
+                .filter(sample => sample !== undefined);
+
+        case 'array': {
+            const element: Sample | undefined = validSamples(type.element, declarations, depth + 1)[0];
+            return element !== undefined
+                ? [sampleOf([]), { code: `[${element.code}]`, value: [element.value] }]
+                : [sampleOf([])];
+        }
+
+        case 'object':
+            return objectSamples(type, declarations, depth);
+
+        case 'reference':
+            return validSamples(resolve(type.name, declarations).type, declarations, depth + 1);
+
+        default:
+            return assertNever(type);
+    }
+}
+
+// Own and inherited properties, without the ones overridden by the interface.
+function collectProperties(type: ObjectModel, declarations: DeclarationMap): PropertyModel[] {
+    const inherited: PropertyModel[] = [];
+    for (const base of type.bases) {
+        const baseType: TypeModel = resolve(base, declarations).type;
+        if (baseType.kind === 'object') {
+            inherited.push(...collectProperties(baseType, declarations));
+        }
+    }
+
+    return [...inherited.filter(property => !type.properties.some(own => own.name === property.name)), ...type.properties];
+}
+
+// Additional key for samples of objects with an indexer.
+const indexerKey: string = 'additional';
+
+function objectSamples(type: ObjectModel, declarations: DeclarationMap, depth: number): Sample[] {
+    const properties: PropertyModel[] = collectProperties(type, declarations);
+    const complete: { property: PropertyModel; sample: Sample; }[] = [];
+    for (const property of properties) {
+        const sample: Sample | undefined = validSamples(property.type, declarations, depth + 1)[0];
+        if (sample !== undefined) {
+            complete.push({ property, sample });
+        } else if (!property.optional) {
+            // Recursion without an optional way out, can't construct a sample.
+            return [];
+        }
+    }
+
+    const build = (members: { property: PropertyModel; sample: Sample; }[]): Sample => {
+        const value: { [name: string]: any; } = {};
+        members.forEach(({ property, sample }) => value[property.name] = sample.value);
+        return objectSample(value);
+    };
+
+    const samples: Sample[] = [build(complete)];
+    if (complete.some(member => member.property.optional)) {
+        samples.push(build(complete.filter(member => !member.property.optional)));
+    }
+
+    const indexed: Sample | undefined = type.indexer !== undefined
+        ? validSamples(type.indexer, declarations, depth + 1)[0]
+        : undefined;
+    if (indexed !== undefined) {
+        samples.push(objectSample(Object.assign({}, samples[0].value, { [indexerKey]: indexed.value })));
+    }
+
+    return samples;
+}
+
+function invalidSamples(declaration: Declaration, declarations: DeclarationMap): Sample[] {
+    const candidates: Sample[] = [];
+
+    // Objects with a missing or wrongly typed property come first,
+    // they are closer to valid values than the generic candidates.
+    const type: TypeModel = declaration.type;
+    if (type.kind === 'object') {
+        const valid: Sample | undefined = validSamples(type, declarations)[0];
+        if (valid !== undefined) {
+            const names: string[] = collectProperties(type, declarations).map(property => property.name);
+            for (const name of names) {
+                const withoutProperty: { [name: string]: any; } = Object.assign({}, valid.value);
+                delete withoutProperty[name];
+                candidates.push(objectSample(withoutProperty));
+            }
+
+            for (const name of type.indexer !== undefined ? [...names, indexerKey] : names) {
+                const wrongValue: Sample | undefined = invalidCandidates
+                    .filter(candidate => candidate.value !== undefined)
+                    .map(candidate => objectSample(Object.assign({}, valid.value, { [name]: candidate.value })))
+                    .filter(candidate => !accepts(type, candidate.value, declarations))[0];
+                if (wrongValue !== undefined) {
+                    candidates.push(wrongValue);
+                }
+            }
+        }
+    }
+
+    return [...candidates, ...invalidCandidates]
+        .filter(candidate => !accepts(declaration.type, candidate.value, declarations))
+        .slice(0, maximumSamples * 2);
+}
+
+function objectSample(value: { [name: string]: any; }): Sample {
+    const code: string = Object.keys(value)
+        .map(name => {
+            const member: any = value[name];
+            const memberCode: string = typeof member === 'function' ? functionSample.code : sampleOf(member).code;
+            return `${isIdentifierName(name) ? name : literalCode(name)}: ${memberCode}`;
+        })
+        .join(', ');
+
+    return { code: code === '' ? '{}' : `{ ${code} }`, value };
+}
+
+function accepts(type: TypeModel, value: any, declarations: DeclarationMap): boolean {
+    switch (type.kind) {
+        case 'keyword':
+            switch (type.keyword) {
+                case 'any': return true;
+                case 'null': return value === null;
+                case 'object': return typeof value === 'object' && value !== null;
+                default: return typeof value === type.keyword;
+            }
+
+        case 'literal':
+            return value === type.value;
+
+        case 'union':
+            return type.members.some(member => accepts(member, value, declarations));
+
+        case 'array':
+            return Array.isArray(value) && value.every(item => accepts(type.element, item, declarations));
+
+        case 'object': {
+            const indexer: TypeModel | undefined = type.indexer;
+            return typeof value === 'object' && value !== null &&
+                type.bases.every(base => accepts(resolve(base, declarations).type, value, declarations)) &&
+                type.properties.every(property =>
+                    (property.optional && value[property.name] === undefined) ||
+                    accepts(property.type, value[property.name], declarations)) &&
+                (indexer === undefined || Object.keys(value).every(key => accepts(indexer, value[key], declarations)));
+        }
+
+        case 'reference':
+            return accepts(resolve(type.name, declarations).type, value, declarations);
+
+        default:
+            return assertNever(type);
+    }
+}
+
+function resolve(name: string, declarations: DeclarationMap): Declaration {
+    const declaration: Declaration | undefined = declarations[name];
+    if (declaration === undefined) {
+        throw new Error(`Type ${name} is referenced, but not declared in any of the source files.`);
+    }
+
+    return declaration;
+}
+
+function emitTest(declarations: Declaration[], declarationMap: DeclarationMap): string {
+    const cases: string[] = [];
+    for (const declaration of declarations) {
+        const valid: Sample[] = validSamples(declaration.type, declarationMap).slice(0, maximumSamples);
+        const invalid: Sample[] = invalidSamples(declaration, declarationMap);
+
+        for (const sample of [...valid, ...invalid]) {
+            const expected: boolean = accepts(declaration.type, sample.value, declarationMap);
+            cases.push(`    ['is${declaration.name}', is${declaration.name}, ${sample.code}, ${expected}],`);
+        }
+    }
+
+    return [
+        header,
+        ``,
+        `import { formatValue, log } from '../utils';`,
+        `import {`,
+        wrap(declarations.map(declaration => `is${declaration.name}`)),
+        `} from './guards';`,
+        ``,
+        `const cases: [string, (value: any) => boolean, any, boolean][] = [`,
+        ...cases,
+        `];`,
+        ``,
+        `const failures: string[] = cases`,
+        `    .filter(([name, guard, value, expected]) => guard(value) !== expected)`,
+        `    .map(([name, guard, value, expected]) => \`\${name}(\${formatValue(value)}) should be \${expected}\`);`,
+        ``,
+        `if (failures.length > 0) {`,
+        `    throw new Error(\`\${failures.length} of \${cases.length} guard checks failed:\\n\${failures.join('\\n')}\`);`,
+        `}`,
+        ``,
+        `log(\`All \${cases.length} guard checks passed.\`);`,
+        ``
+    ].join('\n');
+}
+
+const header: string = '// Generated by scripts/generateGuards.ts, do not edit.';
+
+function wrap(names: string[]): string {
+    const lines: string[] = [];
+    let line: string = '   ';
+    for (const name of names) {
+        if (line.length + name.length + 2 > 100) {
+            lines.push(line.replace(/ $/, ''));
+            line = '   ';
+        }
+        line += ` ${name},`;
+    }
+    lines.push(line.replace(/,$/, ''));
+    return lines.join('\n');
+}
+
+// Returns false if --check found outdated files.
+function generate(outputDirectory: string, sources: string[], check: boolean): boolean {
+    const declarations: Declaration[] = [];
+    const declarationMap: DeclarationMap = {};
+    const skipped: string[] = [];
+    for (const source of sources) {
+        for (const declaration of readDeclarations(source, skipped)) {
+            if (declarationMap[declaration.name] !== undefined) {
+                throw new Error(`Type ${declaration.name} is declared more than once.`);
+            }
+
+            declarations.push(declaration);
+            declarationMap[declaration.name] = declaration;
+        }
+    }
+
+    // Fails early on references to unknown types.
+    declarations.forEach(declaration => accepts(declaration.type, undefined, declarationMap));
+    declarations.forEach(declaration => validSamples(declaration.type, declarationMap));
+
+    skipped.forEach(message => ts.sys.write(`${message}\n`));
+
+    const files: { [fileName: string]: string; } = {
+        [`${outputDirectory}/guards.ts`]: [
+            header,
+            ...declarations.map(declaration => declaration.text),
+            ...declarations.map(emitGuard)
+        ].join('\n\n') + '\n',
+        [`${outputDirectory}/guards.test.ts`]: emitTest(declarations, declarationMap)
+    };
+
+    if (check) {
+        const outdated: string[] = Object.keys(files).filter(fileName => ts.sys.readFile(fileName) !== files[fileName]);
+        outdated.forEach(fileName => ts.sys.write(`${fileName} is outdated, run npm run generate-guards.\n`));
+        return outdated.length === 0;
+    }
+
+    Object.keys(files).forEach(fileName => ts.sys.writeFile(fileName, files[fileName]));
+    ts.sys.write(`Generated ${declarations.length} guards from ${sources.length} file(s) into ${outputDirectory}.\n`);
+    return true;
+}
+
+// Not ts.sys.args, ts-node rewrites process.argv after loading the compiler.
+declare const process: { argv: string[]; exitCode?: number; };
+
+const args: string[] = process.argv.slice(2);
+const check: boolean = args.indexOf('--check') !== -1;
+const [outputDirectory = defaultOutputDirectory, ...sources] = args.filter(arg => arg !== '--check');
+if (!generate(outputDirectory, sources.length > 0 ? sources : defaultSources, check)) {
+    process.exitCode = 1;
+}
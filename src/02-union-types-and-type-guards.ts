@@ -1,4 +1,8 @@
-import { log, oneOf } from './utils';
+import { log, oneOf, seedFromEnvironment } from './utils';
+
+// The examples pick values randomly with oneOf(). The seed is logged,
+// so a surprising run can be repeated with RANDOM_SEED.
+seedFromEnvironment();
 
 // Declaring example types
 interface Bird {
@@ -74,6 +78,10 @@ if (isBird(pet)) {
     // it's NOT a bird, and not that it IS a fish.
 }
 
+// Hand-written guards can drift apart from the types they check.
+// They can be generated from the interfaces instead, checking every
+// member: npm run generate-guards writes them to src/generated/guards.ts.
+
 
 // Alternative approach: in-operator
 // The in-operator checks if a member with a specific name is present
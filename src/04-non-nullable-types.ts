@@ -1,4 +1,7 @@
-import { oneOf, log } from "./utils";
+import { isDefined, oneOf, log, seedFromEnvironment } from "./utils";
+
+// Logs the seed used by oneOf() below.
+seedFromEnvironment();
 
 // Introduced with TypeScript 2.0,
 // and by my opinion THE killer feature.
@@ -42,10 +45,11 @@ function addMaybe(
 
 
 // Type guards can make the checking a bit more easy to read,
-// especially when you can have undefined and null.
-function isDefined<T>(value: T | undefined | null): value is T {
-    return value !== undefined && value !== null;
-}
+// especially when you can have undefined and null:
+//// function isDefined<T>(value: T | undefined | null): value is T {
+////     return value !== undefined && value !== null;
+//// }
+// It's used that often that it's part of the utils.
 
 function addMaybeAgain(
     first: number | undefined | null,
@@ -155,6 +159,21 @@ function reduceDefined<T, TResult>(
 const namesOfPeopleForTheLastTime: string[] = reduceDefined(peopleMaybe, person => person.name);
 log(namesOfPeopleForTheLastTime.join(','));
 
+// The utils provide generalised versions of the helper.
+import { filterDefined, firstDefined, mapDefined, Option } from './utils';
+
+// filterDefined() narrows the type, so map() does not need the non-null assertion operator.
+log(filterDefined(peopleMaybe).map(person => person.name).join(','));
+log(mapDefined(peopleMaybe, person => person.job).join(','));
+log(firstDefined(peopleMaybe, person => person.age) || 'No age known');
+
+// Option chains transformations, missing values are skipped until the end.
+const jobOfSecondPerson: string = Option.of(peopleMaybe[1])
+    .map(person => person.job)
+    .map(job => job.toUpperCase())
+    .getOrElse('unknown');
+log(jobOfSecondPerson);
+
 
 // Members in classes
 class SomeClass {
@@ -203,6 +222,13 @@ import { unsafeGetObject } from './utils';
 // resulting in a runtime error.
 log(unsafeGetObject(true).name);
 
+// Wrapping the function with a contract checks the return value on every
+// call. Passing false now throws a ContractViolationError right at the call:
+// "getObject() broke its contract: $: expected object, got undefined"
+import { safeGetObject } from './utils';
+
+log(safeGetObject(true).name);
+
 
 // Example 2: Data coming from JSON
 interface MyObject {
@@ -214,5 +240,20 @@ const myObject: MyObject = JSON.parse(`{ "name": null }`);
 log(myObject.name); // Expected string, but is null.
 log(myObject.age); // Expected number, but is undefined.
 
+// Instead of trusting the data, it can be validated using a decoder.
+// The type is inferred from the decoder, so it can't drift apart.
+import { decoder } from './utils';
+
+const myObjectDecoder = decoder.object({ name: decoder.string, age: decoder.number });
+type DecodedObject = decoder.TypeOf<typeof myObjectDecoder>;
+
+const decoded: decoder.DecodeResult<DecodedObject> = decoder.parseJson(myObjectDecoder, `{ "name": null }`);
+if (decoded.ok) {
+    log(decoded.value.name);
+} else {
+    // "$.name: expected string, got null" and "$.age: expected number, got undefined"
+    decoded.issues.forEach(issue => log(issue.message));
+}
+
 
 export default {};
@@ -191,6 +191,25 @@ function isKindBest(kind: string): kind is Kind {
     }
 }
 
+// Even better: define the union once from its values. The type is
+// inferred from the values, and the guard is derived from them too,
+// so there is no switch left that could be forgotten.
+import { literalUnion, LiteralUnionType, log } from './utils';
+
+const kinds = literalUnion('string', 'number');
+type InferredKind = LiteralUnionType<typeof kinds>; // 'string' | 'number'
+
+const variableKind: string = 'number';
+if (kinds.is(variableKind)) {
+    const narrowedKind: InferredKind = variableKind;
+    log(getValue(narrowedKind));
+}
+
+log(kinds.values.join(', '));
+log(kinds.parse('invalid').getOrElse('string'));
+// Throws "Invalid Kind: expected 'string' | 'number', got 'invalid'":
+// kinds.assert('invalid', 'Kind');
+
 
 // Literal numbers can be used too
 type Dice = 1 | 2 | 3 | 4 | 5 | 6;
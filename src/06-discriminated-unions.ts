@@ -1,4 +1,7 @@
-import { oneOf } from "./utils";
+import { assertNever, oneOf, seedFromEnvironment } from "./utils";
+
+// Logs the seed used by oneOf() below.
+seedFromEnvironment();
 
 // By combining unions and literal types we can construct
 // discriminated unions. Discriminated unions are unions
@@ -81,17 +84,53 @@ function getArea(shape: Shape): number {
             // If we throw an Error here, we would only solve the second case.
             // But by using a helper function and the never type we can solve
             // both cases.
-            return assertNever(shape);
+            return assertNever(shape, { context: 'Shape', discriminant: 'kind' });
 
             // During compilation, TypeScript ensures the type of shape is
             // never, due to type exhaustion. During runtime the function
-            // will throw an Error.
+            // will throw an Error, e.g. "Unexpected Shape.kind 'cylinder'".
     }
 }
 
-function assertNever(value: never): never {
-    throw new Error(`Unexpected value: ${value}`);
-}
+
+// The utils grow this union into a small geometry library with more
+// variants and operations. Every one of them switches over the kind
+// like getArea(), so a new variant has to be handled everywhere.
+import { log, shapes } from './utils';
+
+const triangle: shapes.Shape = { kind: 'triangle', a: { x: 0, y: 0 }, b: { x: 4, y: 0 }, c: { x: 0, y: 3 } };
+log(shapes.getArea(triangle)); // 6
+log(shapes.getPerimeter(triangle)); // 12
+log(shapes.containsPoint(triangle, { x: 1, y: 1 })); // true
+log(shapes.toSvg([triangle, shapes.translate(triangle, 5, 0)], { fill: 'none', stroke: 'black' }));
+
+
+// Writing every interface, the union and the switch by hand is repetitive.
+// taggedUnion() derives all of it from a single definition: constructors,
+// guards, the list of kinds and an exhaustive fold.
+import { payload, taggedUnion, TaggedUnionType } from './utils';
+
+const Figure = taggedUnion({
+    square: payload<{ size: number }>(),
+    rectangle: payload<{ width: number; height: number }>(),
+    circle: payload<{ radius: number }>()
+});
+type Figure = TaggedUnionType<typeof Figure>;
+
+const figure: Figure = Figure.circle({ radius: 12 }); // { kind: 'circle', radius: 12 }
+log(Figure.kinds.join(', '));
+log(Figure.is.circle(figure));
+
+// Like the switch in getArea(), fold requires a handler for every kind.
+log(Figure.fold(figure, {
+    square: square => square.size * square.size,
+    rectangle: rectangle => rectangle.height * rectangle.width,
+    circle: circle => Math.PI * circle.radius ** 2
+}));
+
+// Another discriminator property can be passed instead of "kind".
+const Message = taggedUnion({ text: payload<{ content: string }>(), ping: payload() }, 'type');
+log(Message.text({ content: 'Hello' }).type); // 'text'
 
 
 export default {};
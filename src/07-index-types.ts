@@ -146,4 +146,52 @@ log(germany['name']);
 type CountryNameType = Country['name'];
 
 
+// The utils provide a dictionary that avoids the gotchas of index types:
+// get() returns undefined for missing keys in its type too, and writes
+// are validated at runtime, even when using a variable key.
+import { decoder, SafeMap } from './utils';
+
+const countries = SafeMap.fromObject(countryMap, { name: 'countries' });
+const maybeFranceAgain: Country | undefined = countries.get('fr');
+log(maybeFranceAgain === undefined ? '<missing>' : maybeFranceAgain.name);
+
+// Throws "Missing key 'fr' in countries, available keys: 'de', 'nl', 'dk'":
+// countries.getOrThrow('fr');
+const { de, nl } = countries.require('de', 'nl');
+log(`${de.name} and ${nl.name}`);
+
+const safeServerOptions = SafeMap.fromObject<string | number | boolean>(
+    { hostName: 'localhost', port: 8080, isDebug: true },
+    {
+        name: 'serverOptions',
+        schema: { hostName: decoder.string, port: decoder.number, isDebug: decoder.boolean }
+    });
+// Throws "serverOptions.hostName: expected string, got true":
+// safeServerOptions.set(hostNameKey, true);
+safeServerOptions.set('administrator', 'Martin');
+log(safeServerOptions.toJson());
+
+// Server options like these usually come from several places. The config
+// loader of the utils merges them with the same shape: typed known keys,
+// coerced from strings, and unknown keys as extras of the indexer.
+import { ConfigError, loadServerOptions, ServerOptions } from './utils';
+
+const loadedServerOptions: ServerOptions = loadServerOptions({
+    file: { name: 'config.json', contents: '{ "hostName": "example.com", "administrator": "Martin" }' },
+    environment: { APP_PORT: '9090' },
+    arguments: ['--is-debug']
+});
+log(`${loadedServerOptions.hostName}:${loadedServerOptions.port}, debug: ${loadedServerOptions.isDebug}`);
+log(loadedServerOptions['administrator'] || 'unspecified');
+
+// All invalid values are reported at once, each with its source.
+try {
+    loadServerOptions({ environment: { APP_PORT: 'eighty' }, arguments: ['--is-debug=maybe'] });
+} catch (error) {
+    if (error instanceof ConfigError) {
+        log(error.message);
+    }
+}
+
+
 export default {};
@@ -1,4 +1,7 @@
-import { log, oneOf } from './utils';
+import { log, oneOf, seedFromEnvironment } from './utils';
+
+// Logs the seed used by oneOf() below.
+seedFromEnvironment();
 
 // Mapped types allow us to define new types based on existing types,
 // by transforming every property of a provided type to create a new type.
@@ -303,4 +306,19 @@ type WithoutId<T extends { id: any; }> = Omit<T, 'id'>;
 type WithStringId<T extends { id: any; }> = Overwrite<T, { id: string; }>;
 
 
+// The types only describe the objects, creating them still requires
+// copying the properties by hand. The utils provide functions for it,
+// returning exactly these mapped types.
+import { omit, overwrite, pick } from './utils';
+
+const pickedCookie: ProductWithoutId = pick(cookie, 'name', 'price');
+const cookieWithoutIdAgain: WithoutId<Product> = omit(cookie, 'id');
+const cookieWithStringId: WithStringId<Product> = overwrite(cookie, { id: 'cookie' });
+log(`${pickedCookie.name}, ${cookieWithoutIdAgain.price}, ${cookieWithStringId.id}`);
+
+// Unknown keys are rejected by the compiler:
+// pick(cookie, 'isSoldOut');
+// overwrite(cookie, { isSoldOut: true });
+
+
 export default {};
@@ -0,0 +1,246 @@
+// Generated by scripts/generateGuards.ts, do not edit.
+
+import { formatValue, log } from '../utils';
+import {
+    isBird, isFish, isPadder, isFirst, isSecond, isSmallPet, isResult, isPerson, isMyObject,
+    isLiteralName, isKind, isDice, isSquare, isRectangle, isCircle, isShape, isCountry,
+    isCountryMap, isMaybeCountryMap, isServerOptions1, isServerOptions2
+} from './guards';
+
+const cases: [string, (value: any) => boolean, any, boolean][] = [
+    ['isBird', isBird, { fly: () => undefined, layEggs: () => undefined }, true],
+    ['isBird', isBird, { layEggs: () => undefined }, false],
+    ['isBird', isBird, { fly: () => undefined }, false],
+    ['isBird', isBird, { fly: null, layEggs: () => undefined }, false],
+    ['isBird', isBird, { fly: () => undefined, layEggs: null }, false],
+    ['isBird', isBird, null, false],
+    ['isBird', isBird, undefined, false],
+    ['isBird', isBird, 'not-a-valid-value', false],
+    ['isBird', isBird, -1.5, false],
+    ['isBird', isBird, false, false],
+    ['isBird', isBird, {}, false],
+    ['isBird', isBird, [], false],
+    ['isFish', isFish, { swim: () => undefined, layEggs: () => undefined }, true],
+    ['isFish', isFish, { layEggs: () => undefined }, false],
+    ['isFish', isFish, { swim: () => undefined }, false],
+    ['isFish', isFish, { swim: null, layEggs: () => undefined }, false],
+    ['isFish', isFish, { swim: () => undefined, layEggs: null }, false],
+    ['isFish', isFish, null, false],
+    ['isFish', isFish, undefined, false],
+    ['isFish', isFish, 'not-a-valid-value', false],
+    ['isFish', isFish, -1.5, false],
+    ['isFish', isFish, false, false],
+    ['isFish', isFish, {}, false],
+    ['isFish', isFish, [], false],
+    ['isPadder', isPadder, {}, true],
+    ['isPadder', isPadder, null, false],
+    ['isPadder', isPadder, undefined, false],
+    ['isPadder', isPadder, 'not-a-valid-value', false],
+    ['isPadder', isPadder, -1.5, false],
+    ['isPadder', isPadder, false, false],
+    ['isFirst', isFirst, { first: 'sample', shared: true }, true],
+    ['isFirst', isFirst, { shared: true }, false],
+    ['isFirst', isFirst, { first: 'sample' }, false],
+    ['isFirst', isFirst, { first: null, shared: true }, false],
+    ['isFirst', isFirst, { first: 'sample', shared: null }, false],
+    ['isFirst', isFirst, null, false],
+    ['isFirst', isFirst, undefined, false],
+    ['isFirst', isFirst, 'not-a-valid-value', false],
+    ['isFirst', isFirst, -1.5, false],
+    ['isFirst', isFirst, false, false],
+    ['isFirst', isFirst, {}, false],
+    ['isFirst', isFirst, [], false],
+    ['isSecond', isSecond, { second: 42, shared: 'sample' }, true],
+    ['isSecond', isSecond, { shared: 'sample' }, false],
+    ['isSecond', isSecond, { second: 42 }, false],
+    ['isSecond', isSecond, { second: null, shared: 'sample' }, false],
+    ['isSecond', isSecond, { second: 42, shared: null }, false],
+    ['isSecond', isSecond, null, false],
+    ['isSecond', isSecond, undefined, false],
+    ['isSecond', isSecond, 'not-a-valid-value', false],
+    ['isSecond', isSecond, -1.5, false],
+    ['isSecond', isSecond, false, false],
+    ['isSecond', isSecond, {}, false],
+    ['isSecond', isSecond, [], false],
+    ['isSmallPet', isSmallPet, { fly: () => undefined, layEggs: () => undefined }, true],
+    ['isSmallPet', isSmallPet, { swim: () => undefined, layEggs: () => undefined }, true],
+    ['isSmallPet', isSmallPet, null, false],
+    ['isSmallPet', isSmallPet, undefined, false],
+    ['isSmallPet', isSmallPet, 'not-a-valid-value', false],
+    ['isSmallPet', isSmallPet, -1.5, false],
+    ['isSmallPet', isSmallPet, false, false],
+    ['isSmallPet', isSmallPet, {}, false],
+    ['isSmallPet', isSmallPet, [], false],
+    ['isResult', isResult, { data: 'sample' }, true],
+    ['isResult', isResult, {}, true],
+    ['isResult', isResult, { data: null }, false],
+    ['isResult', isResult, null, false],
+    ['isResult', isResult, undefined, false],
+    ['isResult', isResult, 'not-a-valid-value', false],
+    ['isResult', isResult, -1.5, false],
+    ['isResult', isResult, false, false],
+    ['isPerson', isPerson, { name: 'sample', job: 'sample', age: 42 }, true],
+    ['isPerson', isPerson, { name: 'sample', job: 'sample' }, true],
+    ['isPerson', isPerson, { job: 'sample', age: 42 }, false],
+    ['isPerson', isPerson, { name: null, job: 'sample', age: 42 }, false],
+    ['isPerson', isPerson, { name: 'sample', job: null, age: 42 }, false],
+    ['isPerson', isPerson, { name: 'sample', job: 'sample', age: null }, false],
+    ['isPerson', isPerson, null, false],
+    ['isPerson', isPerson, undefined, false],
+    ['isPerson', isPerson, 'not-a-valid-value', false],
+    ['isPerson', isPerson, -1.5, false],
+    ['isPerson', isPerson, false, false],
+    ['isPerson', isPerson, {}, false],
+    ['isPerson', isPerson, [], false],
+    ['isMyObject', isMyObject, { name: 'sample', age: 42 }, true],
+    ['isMyObject', isMyObject, { age: 42 }, false],
+    ['isMyObject', isMyObject, { name: 'sample' }, false],
+    ['isMyObject', isMyObject, { name: null, age: 42 }, false],
+    ['isMyObject', isMyObject, { name: 'sample', age: null }, false],
+    ['isMyObject', isMyObject, null, false],
+    ['isMyObject', isMyObject, undefined, false],
+    ['isMyObject', isMyObject, 'not-a-valid-value', false],
+    ['isMyObject', isMyObject, -1.5, false],
+    ['isMyObject', isMyObject, false, false],
+    ['isMyObject', isMyObject, {}, false],
+    ['isMyObject', isMyObject, [], false],
+    ['isLiteralName', isLiteralName, 'name', true],
+    ['isLiteralName', isLiteralName, null, false],
+    ['isLiteralName', isLiteralName, undefined, false],
+    ['isLiteralName', isLiteralName, 'not-a-valid-value', false],
+    ['isLiteralName', isLiteralName, -1.5, false],
+    ['isLiteralName', isLiteralName, false, false],
+    ['isLiteralName', isLiteralName, {}, false],
+    ['isLiteralName', isLiteralName, [], false],
+    ['isKind', isKind, 'string', true],
+    ['isKind', isKind, 'number', true],
+    ['isKind', isKind, null, false],
+    ['isKind', isKind, undefined, false],
+    ['isKind', isKind, 'not-a-valid-value', false],
+    ['isKind', isKind, -1.5, false],
+    ['isKind', isKind, false, false],
+    ['isKind', isKind, {}, false],
+    ['isKind', isKind, [], false],
+    ['isDice', isDice, 1, true],
+    ['isDice', isDice, 2, true],
+    ['isDice', isDice, 3, true],
+    ['isDice', isDice, 4, true],
+    ['isDice', isDice, 5, true],
+    ['isDice', isDice, 6, true],
+    ['isDice', isDice, null, false],
+    ['isDice', isDice, undefined, false],
+    ['isDice', isDice, 'not-a-valid-value', false],
+    ['isDice', isDice, -1.5, false],
+    ['isDice', isDice, false, false],
+    ['isDice', isDice, {}, false],
+    ['isDice', isDice, [], false],
+    ['isSquare', isSquare, { kind: 'square', size: 42 }, true],
+    ['isSquare', isSquare, { size: 42 }, false],
+    ['isSquare', isSquare, { kind: 'square' }, false],
+    ['isSquare', isSquare, { kind: null, size: 42 }, false],
+    ['isSquare', isSquare, { kind: 'square', size: null }, false],
+    ['isSquare', isSquare, null, false],
+    ['isSquare', isSquare, undefined, false],
+    ['isSquare', isSquare, 'not-a-valid-value', false],
+    ['isSquare', isSquare, -1.5, false],
+    ['isSquare', isSquare, false, false],
+    ['isSquare', isSquare, {}, false],
+    ['isSquare', isSquare, [], false],
+    ['isRectangle', isRectangle, { kind: 'rectangle', width: 42, height: 42 }, true],
+    ['isRectangle', isRectangle, { width: 42, height: 42 }, false],
+    ['isRectangle', isRectangle, { kind: 'rectangle', height: 42 }, false],
+    ['isRectangle', isRectangle, { kind: 'rectangle', width: 42 }, false],
+    ['isRectangle', isRectangle, { kind: null, width: 42, height: 42 }, false],
+    ['isRectangle', isRectangle, { kind: 'rectangle', width: null, height: 42 }, false],
+    ['isRectangle', isRectangle, { kind: 'rectangle', width: 42, height: null }, false],
+    ['isRectangle', isRectangle, null, false],
+    ['isRectangle', isRectangle, undefined, false],
+    ['isRectangle', isRectangle, 'not-a-valid-value', false],
+    ['isRectangle', isRectangle, -1.5, false],
+    ['isRectangle', isRectangle, false, false],
+    ['isRectangle', isRectangle, {}, false],
+    ['isCircle', isCircle, { kind: 'circle', radius: 42 }, true],
+    ['isCircle', isCircle, { radius: 42 }, false],
+    ['isCircle', isCircle, { kind: 'circle' }, false],
+    ['isCircle', isCircle, { kind: null, radius: 42 }, false],
+    ['isCircle', isCircle, { kind: 'circle', radius: null }, false],
+    ['isCircle', isCircle, null, false],
+    ['isCircle', isCircle, undefined, false],
+    ['isCircle', isCircle, 'not-a-valid-value', false],
+    ['isCircle', isCircle, -1.5, false],
+    ['isCircle', isCircle, false, false],
+    ['isCircle', isCircle, {}, false],
+    ['isCircle', isCircle, [], false],
+    ['isShape', isShape, { kind: 'square', size: 42 }, true],
+    ['isShape', isShape, { kind: 'rectangle', width: 42, height: 42 }, true],
+    ['isShape', isShape, { kind: 'circle', radius: 42 }, true],
+    ['isShape', isShape, null, false],
+    ['isShape', isShape, undefined, false],
+    ['isShape', isShape, 'not-a-valid-value', false],
+    ['isShape', isShape, -1.5, false],
+    ['isShape', isShape, false, false],
+    ['isShape', isShape, {}, false],
+    ['isShape', isShape, [], false],
+    ['isCountry', isCountry, { name: 'sample' }, true],
+    ['isCountry', isCountry, {}, false],
+    ['isCountry', isCountry, { name: null }, false],
+    ['isCountry', isCountry, null, false],
+    ['isCountry', isCountry, undefined, false],
+    ['isCountry', isCountry, 'not-a-valid-value', false],
+    ['isCountry', isCountry, -1.5, false],
+    ['isCountry', isCountry, false, false],
+    ['isCountry', isCountry, {}, false],
+    ['isCountry', isCountry, [], false],
+    ['isCountryMap', isCountryMap, {}, true],
+    ['isCountryMap', isCountryMap, { additional: { name: 'sample' } }, true],
+    ['isCountryMap', isCountryMap, { additional: null }, false],
+    ['isCountryMap', isCountryMap, null, false],
+    ['isCountryMap', isCountryMap, undefined, false],
+    ['isCountryMap', isCountryMap, 'not-a-valid-value', false],
+    ['isCountryMap', isCountryMap, -1.5, false],
+    ['isCountryMap', isCountryMap, false, false],
+    ['isMaybeCountryMap', isMaybeCountryMap, {}, true],
+    ['isMaybeCountryMap', isMaybeCountryMap, { additional: { name: 'sample' } }, true],
+    ['isMaybeCountryMap', isMaybeCountryMap, { additional: null }, false],
+    ['isMaybeCountryMap', isMaybeCountryMap, null, false],
+    ['isMaybeCountryMap', isMaybeCountryMap, undefined, false],
+    ['isMaybeCountryMap', isMaybeCountryMap, 'not-a-valid-value', false],
+    ['isMaybeCountryMap', isMaybeCountryMap, -1.5, false],
+    ['isMaybeCountryMap', isMaybeCountryMap, false, false],
+    ['isServerOptions1', isServerOptions1, { hostName: 'sample' }, true],
+    ['isServerOptions1', isServerOptions1, { hostName: 'sample', additional: 'sample' }, true],
+    ['isServerOptions1', isServerOptions1, {}, false],
+    ['isServerOptions1', isServerOptions1, { hostName: null }, false],
+    ['isServerOptions1', isServerOptions1, { hostName: 'sample', additional: null }, false],
+    ['isServerOptions1', isServerOptions1, null, false],
+    ['isServerOptions1', isServerOptions1, undefined, false],
+    ['isServerOptions1', isServerOptions1, 'not-a-valid-value', false],
+    ['isServerOptions1', isServerOptions1, -1.5, false],
+    ['isServerOptions1', isServerOptions1, false, false],
+    ['isServerOptions1', isServerOptions1, {}, false],
+    ['isServerOptions1', isServerOptions1, [], false],
+    ['isServerOptions2', isServerOptions2, { hostName: 'sample', port: 42, isDebug: true }, true],
+    ['isServerOptions2', isServerOptions2, { hostName: 'sample', port: 42, isDebug: true, additional: 'sample' }, true],
+    ['isServerOptions2', isServerOptions2, { port: 42, isDebug: true }, false],
+    ['isServerOptions2', isServerOptions2, { hostName: 'sample', isDebug: true }, false],
+    ['isServerOptions2', isServerOptions2, { hostName: 'sample', port: 42 }, false],
+    ['isServerOptions2', isServerOptions2, { hostName: null, port: 42, isDebug: true }, false],
+    ['isServerOptions2', isServerOptions2, { hostName: 'sample', port: null, isDebug: true }, false],
+    ['isServerOptions2', isServerOptions2, { hostName: 'sample', port: 42, isDebug: null }, false],
+    ['isServerOptions2', isServerOptions2, { hostName: 'sample', port: 42, isDebug: true, additional: null }, false],
+    ['isServerOptions2', isServerOptions2, null, false],
+    ['isServerOptions2', isServerOptions2, undefined, false],
+    ['isServerOptions2', isServerOptions2, 'not-a-valid-value', false],
+    ['isServerOptions2', isServerOptions2, -1.5, false],
+    ['isServerOptions2', isServerOptions2, false, false],
+];
+
+const failures: string[] = cases
+    .filter(([name, guard, value, expected]) => guard(value) !== expected)
+    .map(([name, guard, value, expected]) => `${name}(${formatValue(value)}) should be ${expected}`);
+
+if (failures.length > 0) {
+    throw new Error(`${failures.length} of ${cases.length} guard checks failed:\n${failures.join('\n')}`);
+}
+
+log(`All ${cases.length} guard checks passed.`);
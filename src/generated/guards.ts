@@ -0,0 +1,231 @@
+// Generated by scripts/generateGuards.ts, do not edit.
+
+export interface Bird {
+    fly(): void;
+    layEggs(): void;
+}
+
+export interface Fish {
+    swim(): void;
+    layEggs(): void;
+}
+
+export interface Padder {}
+
+export interface First {
+    first: string;
+    shared: boolean;
+}
+
+export interface Second {
+    second: number;
+    shared: string;
+}
+
+export type SmallPet =
+    | Bird
+    | Fish
+    ;
+
+export interface Result {
+    // Type of data is string | undefined,
+    // but only if strictNullChecks are enabled.
+    data?: string;
+}
+
+export interface Person {
+    name: string;
+    job: string | undefined;
+    age?: number;
+}
+
+export interface MyObject {
+    name: string;
+    age: number;
+}
+
+export type LiteralName = 'name';
+
+export type Kind = 'string' | 'number';
+
+export type Dice = 1 | 2 | 3 | 4 | 5 | 6;
+
+export interface Square {
+    kind: 'square';
+    size: number;
+}
+
+export interface Rectangle {
+    kind: 'rectangle';
+    width: number;
+    height: number;
+}
+
+export interface Circle {
+    kind: 'circle';
+    radius: number;
+}
+
+export type Shape = Square | Rectangle | Circle;
+
+export interface Country {
+    name: string;
+}
+
+export interface CountryMap {
+    // countryCode is the index value that is passed. The name can
+    // be anything and is not used, but serves as inline-documentation.
+    // The type can either be string or number, other types are not
+    // supported because JavaScript does not support them.
+    [countryCode: string]: Country;
+}
+
+export interface MaybeCountryMap {
+    // By being explicit that this can return either a Country or undefined
+    // we force the compiler to recognize the case of missing keys. 
+    [countryCode: string]: Country | undefined;
+}
+
+export interface ServerOptions1 {
+    hostName: string;
+
+    [optionName: string]: string | undefined;
+}
+
+export interface ServerOptions2 {
+    hostName: string;
+    port: number;
+    isDebug: boolean;
+
+    [optionName: string]: string | number | boolean | undefined;
+}
+
+export function isBird(value: any): value is Bird {
+    return typeof value === 'object'
+        && value !== null
+        && typeof value.fly === 'function'
+        && typeof value.layEggs === 'function';
+}
+
+export function isFish(value: any): value is Fish {
+    return typeof value === 'object'
+        && value !== null
+        && typeof value.swim === 'function'
+        && typeof value.layEggs === 'function';
+}
+
+export function isPadder(value: any): value is Padder {
+    return typeof value === 'object'
+        && value !== null;
+}
+
+export function isFirst(value: any): value is First {
+    return typeof value === 'object'
+        && value !== null
+        && typeof value.first === 'string'
+        && typeof value.shared === 'boolean';
+}
+
+export function isSecond(value: any): value is Second {
+    return typeof value === 'object'
+        && value !== null
+        && typeof value.second === 'number'
+        && typeof value.shared === 'string';
+}
+
+export function isSmallPet(value: any): value is SmallPet {
+    return (isBird(value) || isFish(value));
+}
+
+export function isResult(value: any): value is Result {
+    return typeof value === 'object'
+        && value !== null
+        && (value.data === undefined || typeof value.data === 'string');
+}
+
+export function isPerson(value: any): value is Person {
+    return typeof value === 'object'
+        && value !== null
+        && typeof value.name === 'string'
+        && (typeof value.job === 'string' || typeof value.job === 'undefined')
+        && (value.age === undefined || typeof value.age === 'number');
+}
+
+export function isMyObject(value: any): value is MyObject {
+    return typeof value === 'object'
+        && value !== null
+        && typeof value.name === 'string'
+        && typeof value.age === 'number';
+}
+
+export function isLiteralName(value: any): value is LiteralName {
+    return value === 'name';
+}
+
+export function isKind(value: any): value is Kind {
+    return (value === 'string' || value === 'number');
+}
+
+export function isDice(value: any): value is Dice {
+    return (value === 1 || value === 2 || value === 3 || value === 4 || value === 5 || value === 6);
+}
+
+export function isSquare(value: any): value is Square {
+    return typeof value === 'object'
+        && value !== null
+        && value.kind === 'square'
+        && typeof value.size === 'number';
+}
+
+export function isRectangle(value: any): value is Rectangle {
+    return typeof value === 'object'
+        && value !== null
+        && value.kind === 'rectangle'
+        && typeof value.width === 'number'
+        && typeof value.height === 'number';
+}
+
+export function isCircle(value: any): value is Circle {
+    return typeof value === 'object'
+        && value !== null
+        && value.kind === 'circle'
+        && typeof value.radius === 'number';
+}
+
+export function isShape(value: any): value is Shape {
+    return (isSquare(value) || isRectangle(value) || isCircle(value));
+}
+
+export function isCountry(value: any): value is Country {
+    return typeof value === 'object'
+        && value !== null
+        && typeof value.name === 'string';
+}
+
+export function isCountryMap(value: any): value is CountryMap {
+    return typeof value === 'object'
+        && value !== null
+        && Object.keys(value).every((key0: string) => isCountry(value[key0]));
+}
+
+export function isMaybeCountryMap(value: any): value is MaybeCountryMap {
+    return typeof value === 'object'
+        && value !== null
+        && Object.keys(value).every((key0: string) => (isCountry(value[key0]) || typeof value[key0] === 'undefined'));
+}
+
+export function isServerOptions1(value: any): value is ServerOptions1 {
+    return typeof value === 'object'
+        && value !== null
+        && typeof value.hostName === 'string'
+        && Object.keys(value).every((key0: string) => (typeof value[key0] === 'string' || typeof value[key0] === 'undefined'));
+}
+
+export function isServerOptions2(value: any): value is ServerOptions2 {
+    return typeof value === 'object'
+        && value !== null
+        && typeof value.hostName === 'string'
+        && typeof value.port === 'number'
+        && typeof value.isDebug === 'boolean'
+        && Object.keys(value).every((key0: string) => (typeof value[key0] === 'string' || typeof value[key0] === 'number' || typeof value[key0] === 'boolean' || typeof value[key0] === 'undefined'));
+}
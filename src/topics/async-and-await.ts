@@ -1,4 +1,7 @@
-import { delay, delayWithResult, logTimestamped as log, logSpacer, retrieve, properRace } from '../utils';
+import {
+    CancellationController, delay, delayWithResult, logTimestamped as log, logSpacer, retrieve, properRace,
+    trackProgress
+} from '../utils';
 
 // TypeScript provides with async & await a feature to write
 // asynchronous code in a synchronous fashion by utilizing
@@ -174,12 +177,36 @@ import { delay, delayWithResult, logTimestamped as log, logSpacer, retrieve, pro
         log('Download started.');
         const downloadPromise: Promise<string> = delayWithResult('smart file data', 3000);
 
-        while ((await properRace(downloadPromise, delay(1000))).promise !== downloadPromise) {
+        // The last tick is still pending when the download wins the race,
+        // so we cancel it instead of leaving its timer running.
+        const ticks: CancellationController = new CancellationController();
+        const tick = (): Promise<void> => delay(1000, ticks.signal).catch(() => undefined);
+
+        while ((await properRace([downloadPromise, tick()])).promise !== downloadPromise) {
             log('Downloading...');
         }
+        ticks.abort();
 
         log('Download finished.');
         return await downloadPromise;
     }
     log(await downloadFileAsyncSmart());
+    logSpacer();
+
+    // Or let a utility function report the progress, and consume
+    // the reported events using "for await" instead of a loop.
+    async function downloadFileAsyncWithProgress(): Promise<string> {
+        log('Download started.');
+        const download = trackProgress(delayWithResult('tracked file data', 3000), { interval: 1000 });
+
+        for await (const event of download) {
+            if (event.kind === 'tick') {
+                log('Downloading...');
+            }
+        }
+
+        log('Download finished.');
+        return await download.promise;
+    }
+    log(await downloadFileAsyncWithProgress());
 })();
@@ -1,3 +1,44 @@
-export function assertNever(x: never): never {
-    throw new Error(`Unexpected value: ${x}`);
+import { formatValue } from './formatValue';
+
+export interface UnexpectedValueOptions {
+    // Name of the expected type, e.g. 'Shape'.
+    context?: string;
+    // Property that identifies the variant, e.g. 'kind'.
+    discriminant?: string;
+}
+
+export function assertNever(x: never, options?: UnexpectedValueOptions): never {
+    throw new UnexpectedValueError(x, options);
+}
+
+export class UnexpectedValueError extends Error {
+    public readonly name: string = 'UnexpectedValueError';
+    public readonly context: string | undefined;
+    public readonly discriminant: string | undefined;
+
+    // Messages look like "Unexpected Shape.kind 'cylinder'" with both a
+    // context and a discriminant, and "Unexpected value: ..." without.
+    constructor(public readonly value: any, options: UnexpectedValueOptions = {}) {
+        super(describeUnexpectedValue(value, options));
+        this.context = options.context;
+        this.discriminant = options.discriminant;
+    }
+}
+
+function describeUnexpectedValue(value: any, options: UnexpectedValueOptions): string {
+    const { context, discriminant } = options;
+
+    if (discriminant !== undefined && typeof value === 'object' && value !== null) {
+        const subject: string = context !== undefined ? `${context}.${discriminant}` : discriminant;
+        let discriminantValue: string;
+        try {
+            discriminantValue = formatValue(value[discriminant]);
+        } catch {
+            discriminantValue = '[Getter threw]';
+        }
+
+        return `Unexpected ${subject} ${discriminantValue}`;
+    }
+
+    return `Unexpected ${context !== undefined ? context : 'value'}: ${formatValue(value)}`;
 }
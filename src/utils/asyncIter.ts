@@ -0,0 +1,245 @@
+import { CancellationController } from './cancellation';
+import { getClock } from './clock';
+import { delay, properRace, withTimeout } from './delay';
+
+// Lazily evaluated operators over async iterables. Nothing is read
+// from the source until the result is iterated, and the source is
+// closed as soon as the consumer stops iterating.
+
+export async function* map<T, U>(
+    source: AsyncIterable<T>,
+    selector: (value: T, index: number) => U | Promise<U>
+): AsyncIterableIterator<U> {
+    let index: number = 0;
+    for await (const value of source) {
+        yield await selector(value, index++);
+    }
+}
+
+export function filter<T, U extends T>(
+    source: AsyncIterable<T>,
+    predicate: (value: T, index: number) => value is U
+): AsyncIterableIterator<U>;
+export function filter<T>(
+    source: AsyncIterable<T>,
+    predicate: (value: T, index: number) => boolean | Promise<boolean>
+): AsyncIterableIterator<T>;
+export async function* filter<T>(
+    source: AsyncIterable<T>,
+    predicate: (value: T, index: number) => boolean | Promise<boolean>
+): AsyncIterableIterator<T> {
+    let index: number = 0;
+    for await (const value of source) {
+        if (await predicate(value, index++)) {
+            yield value;
+        }
+    }
+}
+
+export async function* take<T>(source: AsyncIterable<T>, count: number): AsyncIterableIterator<T> {
+    if (count <= 0) {
+        return;
+    }
+
+    let taken: number = 0;
+    for await (const value of source) {
+        yield value;
+
+        // Breaking out of the loop closes the source.
+        if (++taken >= count) {
+            break;
+        }
+    }
+}
+
+export async function* chunk<T>(source: AsyncIterable<T>, size: number): AsyncIterableIterator<T[]> {
+    if (!(size >= 1)) {
+        throw new RangeError(`Chunk size must be at least 1, got ${size}.`);
+    }
+
+    let current: T[] = [];
+    for await (const value of source) {
+        current.push(value);
+        if (current.length >= size) {
+            yield current;
+            current = [];
+        }
+    }
+
+    // The last chunk may be smaller.
+    if (current.length > 0) {
+        yield current;
+    }
+}
+
+// Yields the values of all sources in the order they arrive.
+export async function* merge<T>(...sources: AsyncIterable<T>[]): AsyncIterableIterator<T> {
+    const iterators: AsyncIterator<T>[] = sources.map(source => source[Symbol.asyncIterator]());
+    const pending: Map<number, Promise<{ index: number; result: IteratorResult<T>; }>> = new Map();
+    const request = (index: number): void => {
+        pending.set(index, iterators[index].next().then(result => ({ index, result })));
+    };
+    iterators.forEach((iterator, index) => request(index));
+
+    try {
+        while (pending.size > 0) {
+            const { index, result } = await Promise.race(Array.from(pending.values()));
+            if (result.done) {
+                pending.delete(index);
+            } else {
+                request(index);
+                yield result.value;
+            }
+        }
+    } finally {
+        Array.from(pending.values()).forEach(ignoreRejection);
+        close(Array.from(pending.keys()).map(index => iterators[index]));
+    }
+}
+
+// Yields tuples of the values of all sources, ends with the shortest source.
+export function zip<T1, T2>(
+    sources: [AsyncIterable<T1>, AsyncIterable<T2>]
+): AsyncIterableIterator<[T1, T2]>;
+export function zip<T1, T2, T3>(
+    sources: [AsyncIterable<T1>, AsyncIterable<T2>, AsyncIterable<T3>]
+): AsyncIterableIterator<[T1, T2, T3]>;
+export function zip<T1, T2, T3, T4>(
+    sources: [AsyncIterable<T1>, AsyncIterable<T2>, AsyncIterable<T3>, AsyncIterable<T4>]
+): AsyncIterableIterator<[T1, T2, T3, T4]>;
+export function zip<T>(sources: AsyncIterable<T>[]): AsyncIterableIterator<T[]>;
+export async function* zip(sources: AsyncIterable<any>[]): AsyncIterableIterator<any[]> {
+    const iterators: AsyncIterator<any>[] = sources.map(source => source[Symbol.asyncIterator]());
+    // Finished iterators are already closed, the longer ones are still open
+    // when the shortest source ends and have to be closed too.
+    let finished: boolean[] = iterators.map(() => false);
+
+    try {
+        while (true) {
+            const results: IteratorResult<any>[] = await Promise.all(iterators.map(iterator => iterator.next()));
+            finished = results.map(result => result.done);
+            if (finished.some(done => done)) {
+                return;
+            }
+
+            yield results.map(result => result.value);
+        }
+    } finally {
+        close(iterators.filter((iterator, index) => !finished[index]));
+    }
+}
+
+// Yields a value only if at least "milliseconds" passed since the last
+// yielded value. Values arriving in between are dropped.
+export async function* throttle<T>(source: AsyncIterable<T>, milliseconds: number): AsyncIterableIterator<T> {
+    let lastYield: number = -Infinity;
+    for await (const value of source) {
+        const now: number = getClock().now();
+        if (now - lastYield >= milliseconds) {
+            lastYield = now;
+            yield value;
+        }
+    }
+}
+
+// Yields a value only once the source was silent for "milliseconds",
+// so of a burst of values only the last one is yielded.
+export async function* debounce<T>(source: AsyncIterable<T>, milliseconds: number): AsyncIterableIterator<T> {
+    const iterator: AsyncIterator<T> = source[Symbol.asyncIterator]();
+    let next: Promise<IteratorResult<T>> = iterator.next();
+    let latest: { value: T; } | undefined = undefined;
+    let completed: boolean = false;
+
+    try {
+        while (true) {
+            if (latest === undefined) {
+                const result: IteratorResult<T> = await next;
+                if (result.done) {
+                    completed = true;
+                    return;
+                }
+
+                latest = { value: result.value };
+                next = iterator.next();
+                continue;
+            }
+
+            // Wait for either the next value or the silence to pass.
+            const silence: CancellationController = new CancellationController();
+            const winner = await properRace([next, delay(milliseconds, silence.signal)]);
+            silence.abort();
+
+            if (winner.index === 1) {
+                yield latest.value;
+                latest = undefined;
+            } else if (winner.status === 'rejected') {
+                completed = true;
+                throw winner.reason;
+            } else if (winner.value.done) {
+                completed = true;
+                yield latest.value;
+                return;
+            } else {
+                latest = { value: winner.value.value };
+                next = iterator.next();
+            }
+        }
+    } finally {
+        if (!completed) {
+            ignoreRejection(next);
+            close([iterator]);
+        }
+    }
+}
+
+// Fails with a TimeoutError if the source takes longer than
+// "milliseconds" to produce the next value.
+export async function* timeout<T>(source: AsyncIterable<T>, milliseconds: number): AsyncIterableIterator<T> {
+    const iterator: AsyncIterator<T> = source[Symbol.asyncIterator]();
+    let completed: boolean = false;
+
+    try {
+        while (true) {
+            const result: IteratorResult<T> = await withTimeout(iterator.next(), milliseconds);
+            if (result.done) {
+                completed = true;
+                return;
+            }
+
+            yield result.value;
+        }
+    } finally {
+        if (!completed) {
+            close([iterator]);
+        }
+    }
+}
+
+export async function toArray<T>(source: AsyncIterable<T>): Promise<T[]> {
+    const values: T[] = [];
+    for await (const value of source) {
+        values.push(value);
+    }
+
+    return values;
+}
+
+export async function* fromIterable<T>(values: Iterable<T | Promise<T>>): AsyncIterableIterator<T> {
+    for (const value of values) {
+        yield await value;
+    }
+}
+
+// Closes the iterators without waiting, a source that is still busy
+// producing its next value would otherwise block the consumer.
+function close(iterators: AsyncIterator<any>[]): void {
+    for (const iterator of iterators) {
+        if (iterator.return !== undefined) {
+            ignoreRejection(iterator.return());
+        }
+    }
+}
+
+function ignoreRejection(promise: Promise<any>): void {
+    promise.catch(() => undefined);
+}
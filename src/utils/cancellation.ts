@@ -0,0 +1,87 @@
+// Same shape as the DOM / Node.js AbortSignal, so a native
+// AbortController.signal can be passed wherever we expect one.
+export interface CancellationSignal {
+    readonly aborted: boolean;
+    addEventListener(type: 'abort', listener: () => void): void;
+    removeEventListener(type: 'abort', listener: () => void): void;
+}
+
+export class CancelledError extends Error {
+    public readonly name: string = 'CancelledError';
+
+    constructor(message: string = 'The operation was cancelled.') {
+        super(message);
+    }
+}
+
+// Minimal AbortController counterpart for environments without one.
+export class CancellationController {
+    private readonly listeners: (() => void)[] = [];
+    private isAborted: boolean = false;
+
+    public readonly signal: CancellationSignal;
+
+    constructor() {
+        const controller: CancellationController = this;
+        this.signal = {
+            get aborted(): boolean { return controller.isAborted; },
+            addEventListener(type: 'abort', listener: () => void): void {
+                controller.listeners.push(listener);
+            },
+            removeEventListener(type: 'abort', listener: () => void): void {
+                const index: number = controller.listeners.indexOf(listener);
+                if (index !== -1) {
+                    controller.listeners.splice(index, 1);
+                }
+            }
+        };
+    }
+
+    public abort(): void {
+        if (this.isAborted) {
+            return;
+        }
+
+        this.isAborted = true;
+        for (const listener of this.listeners.splice(0)) {
+            listener();
+        }
+    }
+}
+
+export function throwIfCancelled(signal: CancellationSignal | undefined): void {
+    if (signal !== undefined && signal.aborted) {
+        throw new CancelledError();
+    }
+}
+
+// Settles with the promise, or rejects with a CancelledError as soon
+// as the signal is aborted. The abort listener is always cleaned up.
+export function raceCancellation<T>(
+    promise: Promise<T>,
+    signal: CancellationSignal | undefined
+): Promise<T> {
+    if (signal === undefined) {
+        return promise;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+        if (signal.aborted) {
+            reject(new CancelledError());
+            return;
+        }
+
+        const onAbort = (): void => reject(new CancelledError());
+        signal.addEventListener('abort', onAbort);
+
+        promise.then(
+            value => {
+                signal.removeEventListener('abort', onAbort);
+                resolve(value);
+            },
+            reason => {
+                signal.removeEventListener('abort', onAbort);
+                reject(reason);
+            });
+    });
+}
@@ -0,0 +1,142 @@
+// Opaque handle returned by Clock.setTimeout.
+export type TimerHandle = {};
+
+export interface Clock {
+    now(): number;
+    // Milliseconds from an arbitrary origin, never jumps backwards
+    // unless neither performance.now() nor process.hrtime() exists.
+    monotonic(): number;
+    setTimeout(callback: () => void, milliseconds: number): TimerHandle;
+    clearTimeout(handle: TimerHandle): void;
+}
+
+// Only the part of Node.js that is used here, the project has no Node.js typings.
+declare const process: { hrtime?: () => [number, number]; } | undefined;
+
+function monotonicNow(): number {
+    if (typeof performance !== 'undefined') {
+        return performance.now();
+    }
+
+    // Node.js before version 16 has no global performance object.
+    if (typeof process !== 'undefined' && process.hrtime !== undefined) {
+        const [seconds, nanoseconds] = process.hrtime();
+        return seconds * 1000 + nanoseconds / 1e6;
+    }
+
+    // Last resort, not monotonic: the system time can be set backwards.
+    return Date.now();
+}
+
+export const realClock: Clock = {
+    now: () => Date.now(),
+    monotonic: monotonicNow,
+    setTimeout: (callback, milliseconds) => setTimeout(callback, milliseconds),
+    clearTimeout: handle => clearTimeout(handle as number)
+};
+
+let currentClock: Clock = realClock;
+
+export function getClock(): Clock {
+    return currentClock;
+}
+
+// Replaces the clock used by the utilities, returns the previous one
+// so it can be restored afterwards.
+export function setClock(clock: Clock): Clock {
+    const previous: Clock = currentClock;
+    currentClock = clock;
+    return previous;
+}
+
+export interface PendingTimer {
+    readonly id: number;
+    readonly dueAt: number;
+}
+
+interface VirtualTimer extends PendingTimer {
+    readonly callback: () => void;
+}
+
+// A clock that only moves forward when told to. Timers are fired in
+// order of their due time, and pending promise callbacks are flushed
+// after each timer, so awaiting code can schedule follow-up timers.
+export class VirtualClock implements Clock {
+    private currentTime: number;
+    private nextId: number = 1;
+    private timers: VirtualTimer[] = [];
+
+    constructor(startTime: number = 0) {
+        this.currentTime = startTime;
+    }
+
+    public now(): number {
+        return this.currentTime;
+    }
+
+    public monotonic(): number {
+        return this.currentTime;
+    }
+
+    public setTimeout(callback: () => void, milliseconds: number): TimerHandle {
+        const timer: VirtualTimer = {
+            id: this.nextId++,
+            dueAt: this.currentTime + Math.max(0, milliseconds),
+            callback
+        };
+        this.timers.push(timer);
+        return timer.id;
+    }
+
+    public clearTimeout(handle: TimerHandle): void {
+        this.timers = this.timers.filter(timer => timer.id !== handle);
+    }
+
+    public getPendingTimers(): PendingTimer[] {
+        return this.sortedTimers().map(({ id, dueAt }) => ({ id, dueAt }));
+    }
+
+    public async advanceBy(milliseconds: number): Promise<void> {
+        const targetTime: number = this.currentTime + milliseconds;
+        await flushPromises();
+
+        let next: VirtualTimer | undefined;
+        while ((next = this.sortedTimers()[0]) !== undefined && next.dueAt <= targetTime) {
+            await this.fire(next);
+        }
+
+        this.currentTime = targetTime;
+    }
+
+    // Fires timers until none are left. The limit guards against
+    // code that keeps scheduling timers forever, e.g. polling loops.
+    public async runAll(limit: number = 10000): Promise<void> {
+        await flushPromises();
+
+        let next: VirtualTimer | undefined;
+        for (let fired = 0; (next = this.sortedTimers()[0]) !== undefined; ++fired) {
+            if (fired >= limit) {
+                throw new Error(`Aborted after ${limit} timers, ${this.timers.length} still pending.`);
+            }
+
+            await this.fire(next);
+        }
+    }
+
+    private sortedTimers(): VirtualTimer[] {
+        return this.timers.slice().sort((a, b) => a.dueAt - b.dueAt || a.id - b.id);
+    }
+
+    private async fire(timer: VirtualTimer): Promise<void> {
+        this.timers = this.timers.filter(pending => pending !== timer);
+        this.currentTime = Math.max(this.currentTime, timer.dueAt);
+        timer.callback();
+        await flushPromises();
+    }
+}
+
+// Yields to the event loop once, so all queued promise callbacks run.
+// Uses the real timer on purpose, the virtual one would never fire.
+function flushPromises(): Promise<void> {
+    return new Promise<void>(resolve => realClock.setTimeout(resolve, 0));
+}
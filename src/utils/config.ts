@@ -0,0 +1,293 @@
+import { assertNever } from './assertNever';
+import { formatValue } from './formatValue';
+
+// Builds one typed options object from several sources. Later sources
+// override earlier ones: defaults < JSON file < environment < arguments.
+// Known keys are declared in a schema and coerced to their type, unknown
+// keys are kept as the extras of the indexer, like ServerOptions2 in lesson 07.
+//
+// The sources are passed in instead of read here, e.g. in Node.js:
+//   loadConfig(schema, {
+//       file: { name: 'config.json', contents: fs.readFileSync('config.json', 'utf8') },
+//       environment: process.env,
+//       arguments: process.argv.slice(2)
+//   });
+
+export type ConfigValueType = 'string' | 'number' | 'boolean';
+
+export interface ConfigSchema {
+    [key: string]: ConfigValueType;
+}
+
+export type ConfigValue<TType> =
+    TType extends 'string' ? string :
+    TType extends 'number' ? number :
+    TType extends 'boolean' ? boolean :
+    never;
+
+export type ConfigExtras = { [option: string]: string | number | boolean | undefined; };
+
+export type ConfigType<TSchema> = { [P in keyof TSchema]: ConfigValue<TSchema[P]> } & ConfigExtras;
+
+// Keeps the literal types of the schema, so ConfigType can be inferred:
+//   const schema = configSchema({ port: 'number' });
+//   type Options = ConfigType<typeof schema>; // { port: number } & ConfigExtras
+export function configSchema<TSchema extends ConfigSchema>(schema: TSchema): TSchema {
+    return schema;
+}
+
+export type ConfigSource = 'defaults' | 'file' | 'environment' | 'arguments';
+
+// In order of precedence.
+const configSources: ConfigSource[] = ['defaults', 'file', 'environment', 'arguments'];
+
+export interface ConfigSources<TSchema> {
+    defaults?: Partial<ConfigType<TSchema>>;
+    file?: { name: string; contents: string; };
+    environment?: { [name: string]: string | undefined; };
+    // Flags like --port 8080, --port=8080 or --is-debug.
+    arguments?: string[];
+}
+
+export interface ConfigOptions {
+    // Environment variables are named like APP_HOST_NAME for hostName.
+    environmentPrefix?: string;
+}
+
+export interface ConfigIssue {
+    // Undefined for issues of a whole source, e.g. invalid JSON.
+    key: string | undefined;
+    // Undefined for missing keys, which aren't set by any source.
+    source: ConfigSource | undefined;
+    // Where the value came from, e.g. "config.json" or "APP_PORT".
+    origin: string | undefined;
+    message: string;
+}
+
+export class ConfigError extends Error {
+    public readonly name: string = 'ConfigError';
+
+    constructor(public readonly issues: ConfigIssue[]) {
+        super(`Invalid configuration, ${issues.length} issue(s):\n` +
+            issues.map(issue => `  ${issue.message}`).join('\n'));
+    }
+}
+
+interface ConfigEntry {
+    key: string;
+    value: any;
+    source: ConfigSource;
+    origin: string;
+}
+
+function toEnvironmentName(key: string, prefix: string): string {
+    return prefix + key.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase();
+}
+
+function fromEnvironmentName(name: string, prefix: string): string {
+    return name.slice(prefix.length).toLowerCase().replace(/_([a-z0-9])/g, (match, letter) => letter.toUpperCase());
+}
+
+function toFlagName(key: string): string {
+    return '--' + key.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+}
+
+function fromFlagName(flag: string): string {
+    return flag.replace(/^--/, '').replace(/-([a-z0-9])/g, (match, letter) => letter.toUpperCase());
+}
+
+function readFile(file: { name: string; contents: string; }, issues: ConfigIssue[]): ConfigEntry[] {
+    let object: any;
+    try {
+        object = JSON.parse(file.contents);
+    } catch (error) {
+        issues.push({ key: undefined, source: 'file', origin: file.name, message: `${file.name}: ${error.message}` });
+        return [];
+    }
+
+    if (typeof object !== 'object' || object === null || Array.isArray(object)) {
+        issues.push({
+            key: undefined,
+            source: 'file',
+            origin: file.name,
+            message: `${file.name}: expected an object, got ${Array.isArray(object) ? 'array' : formatValue(object)}`
+        });
+        return [];
+    }
+
+    return Object.keys(object).map(key => ({ key, value: object[key], source: 'file' as ConfigSource, origin: file.name }));
+}
+
+function readEnvironment(environment: { [name: string]: string | undefined; }, prefix: string): ConfigEntry[] {
+    return Object.keys(environment)
+        .filter(name => name.startsWith(prefix) && name.length > prefix.length && environment[name] !== undefined)
+        .map(name => ({
+            key: fromEnvironmentName(name, prefix),
+            value: environment[name],
+            source: 'environment' as ConfigSource,
+            origin: name
+        }));
+}
+
+function readArguments(args: string[], issues: ConfigIssue[]): ConfigEntry[] {
+    const entries: ConfigEntry[] = [];
+    for (let index = 0; index < args.length; ++index) {
+        const arg: string = args[index];
+        if (!arg.startsWith('--') || arg === '--') {
+            issues.push({ key: undefined, source: 'arguments', origin: arg, message: `Unexpected argument ${formatValue(arg)}` });
+            continue;
+        }
+
+        // Flags without a value, e.g. --is-debug, are true.
+        const separator: number = arg.indexOf('=');
+        const flag: string = separator !== -1 ? arg.slice(0, separator) : arg;
+        let value: string | boolean;
+        if (separator !== -1) {
+            value = arg.slice(separator + 1);
+        } else if (index + 1 < args.length && !args[index + 1].startsWith('--')) {
+            value = args[++index];
+        } else {
+            value = true;
+        }
+
+        entries.push({ key: fromFlagName(flag), value, source: 'arguments', origin: flag });
+    }
+
+    return entries;
+}
+
+const trueValues: string[] = ['true', '1', 'yes', 'on'];
+const falseValues: string[] = ['false', '0', 'no', 'off'];
+
+// Strings are coerced, because environment variables and arguments are
+// always strings. Returns undefined if the value can't be coerced.
+function coerce(value: any, type: ConfigValueType): string | number | boolean | undefined {
+    if (typeof value === type) {
+        return type === 'number' && isNaN(value) ? undefined : value;
+    }
+
+    if (typeof value !== 'string') {
+        return undefined;
+    }
+
+    switch (type) {
+        case 'string':
+            return value;
+
+        case 'number': {
+            const number: number = Number(value.trim());
+            return value.trim() !== '' && isFinite(number) ? number : undefined;
+        }
+
+        case 'boolean': {
+            const normalized: string = value.trim().toLowerCase();
+            return trueValues.indexOf(normalized) !== -1 ? true : falseValues.indexOf(normalized) !== -1 ? false : undefined;
+        }
+
+        default:
+            return assertNever(type);
+    }
+}
+
+function describeEntry(entry: ConfigEntry): string {
+    switch (entry.source) {
+        case 'defaults': return 'defaults';
+        case 'file': return entry.origin;
+        case 'environment': return `environment variable ${entry.origin}`;
+        case 'arguments': return `argument ${entry.origin}`;
+        default: return assertNever(entry.source);
+    }
+}
+
+// Throws a ConfigError listing every invalid or missing key with its source.
+export function loadConfig<TSchema extends ConfigSchema>(
+    schema: TSchema,
+    sources: ConfigSources<TSchema>,
+    options: ConfigOptions = {}
+): ConfigType<TSchema> {
+    const { environmentPrefix = 'APP_' } = options;
+    const issues: ConfigIssue[] = [];
+    const defaults: { [key: string]: any; } = sources.defaults || {};
+
+    const entries: ConfigEntry[] = [
+        ...Object.keys(defaults).map(key => ({ key, value: defaults[key], source: 'defaults' as ConfigSource, origin: 'defaults' })),
+        ...(sources.file !== undefined ? readFile(sources.file, issues) : []),
+        ...(sources.environment !== undefined ? readEnvironment(sources.environment, environmentPrefix) : []),
+        ...(sources.arguments !== undefined ? readArguments(sources.arguments, issues) : [])
+    ];
+
+    const result: ConfigExtras = {};
+    for (const entry of entries) {
+        // Defaults of undefined don't count as values.
+        if (entry.value === undefined) {
+            continue;
+        }
+
+        const type: ConfigValueType | undefined =
+            Object.prototype.hasOwnProperty.call(schema, entry.key) ? schema[entry.key] : undefined;
+        const expected: string = type !== undefined ? type : 'string, number or boolean';
+        const value: string | number | boolean | undefined = type !== undefined
+            ? coerce(entry.value, type)
+            : ['string', 'number', 'boolean'].indexOf(typeof entry.value) !== -1 ? entry.value : undefined;
+
+        if (value === undefined) {
+            issues.push({
+                key: entry.key,
+                source: entry.source,
+                origin: entry.origin,
+                message: `${entry.key} (${describeEntry(entry)}): expected ${expected}, got ${formatValue(entry.value)}`
+            });
+        } else {
+            result[entry.key] = value;
+        }
+    }
+
+    for (const key of Object.keys(schema)) {
+        if (result[key] === undefined && !issues.some(issue => issue.key === key)) {
+            issues.push({
+                key,
+                source: undefined,
+                origin: undefined,
+                message: `${key}: missing, set it in the defaults, the config file, ` +
+                    `${toEnvironmentName(key, environmentPrefix)} or ${toFlagName(key)}`
+            });
+        }
+    }
+
+    if (issues.length > 0) {
+        // Sorted by source like the entries, missing keys last.
+        const order = (issue: ConfigIssue): number =>
+            issue.source !== undefined ? configSources.indexOf(issue.source) : configSources.length;
+        throw new ConfigError(issues
+            .map((issue, index) => ({ issue, index }))
+            .sort((a, b) => order(a.issue) - order(b.issue) || a.index - b.index)
+            .map(({ issue }) => issue));
+    }
+
+    return result as ConfigType<TSchema>;
+}
+
+// The server options of lesson 07: known typed keys plus free-form extras.
+export const serverOptionsSchema = configSchema({
+    hostName: 'string',
+    port: 'number',
+    isDebug: 'boolean'
+});
+
+export type ServerOptions = ConfigType<typeof serverOptionsSchema>;
+
+export const defaultServerOptions: Partial<ServerOptions> = {
+    hostName: 'localhost',
+    port: 8080,
+    isDebug: false
+};
+
+export function loadServerOptions(
+    sources: ConfigSources<typeof serverOptionsSchema>,
+    options?: ConfigOptions
+): ServerOptions {
+    return loadConfig(
+        serverOptionsSchema,
+        Object.assign({}, sources, { defaults: Object.assign({}, defaultServerOptions, sources.defaults) }),
+        options);
+}
@@ -0,0 +1,63 @@
+import { DecodeIssue, DecodeResult, Decoder } from './decoder';
+import { defaultLogger } from './logger';
+
+// What to do when a wrapped function returns something else than declared:
+// - throw:    throw a ContractViolationError (default).
+// - log:      log a warning and pass the value through unchanged.
+// - fallback: log a warning and return the fallback value instead.
+export type ContractViolationHandling<T> = 'throw' | 'log' | { fallback: T; };
+
+export class ContractViolationError extends Error {
+    public readonly name: string = 'ContractViolationError';
+
+    constructor(
+        public readonly functionName: string,
+        public readonly value: any,
+        public readonly issues: DecodeIssue[]
+    ) {
+        super(`${functionName}() broke its contract:\n${issues.map(issue => `  ${issue.message}`).join('\n')}`);
+    }
+}
+
+// Wraps a function from across the JavaScript boundary, so its return value
+// is checked against a decoder on every call. A broken declaration fails
+// right at the call, instead of somewhere later where the value is used.
+export function withContract<R>(
+    name: string, unsafe: () => any, decoder: Decoder<R>, onViolation?: ContractViolationHandling<R>
+): () => R;
+export function withContract<A1, R>(
+    name: string, unsafe: (a1: A1) => any, decoder: Decoder<R>, onViolation?: ContractViolationHandling<R>
+): (a1: A1) => R;
+export function withContract<A1, A2, R>(
+    name: string, unsafe: (a1: A1, a2: A2) => any, decoder: Decoder<R>, onViolation?: ContractViolationHandling<R>
+): (a1: A1, a2: A2) => R;
+export function withContract<A1, A2, A3, R>(
+    name: string,
+    unsafe: (a1: A1, a2: A2, a3: A3) => any,
+    decoder: Decoder<R>,
+    onViolation?: ContractViolationHandling<R>
+): (a1: A1, a2: A2, a3: A3) => R;
+export function withContract<R>(
+    name: string,
+    unsafe: (...args: any[]) => any,
+    decoder: Decoder<R>,
+    onViolation: ContractViolationHandling<R> = 'throw'
+): (...args: any[]) => R {
+    return function (this: any, ...args: any[]): R {
+        const value: any = unsafe.apply(this, args);
+        const result: DecodeResult<R> = decoder.decode(value);
+        // The decoder only checks the value, decoded objects lose their
+        // prototype and undeclared properties, so the original is returned.
+        if (result.ok) {
+            return value;
+        }
+
+        const error: ContractViolationError = new ContractViolationError(name, value, result.issues);
+        if (onViolation === 'throw') {
+            throw error;
+        }
+
+        defaultLogger.warn(error.message);
+        return onViolation === 'log' ? value : onViolation.fallback;
+    };
+}
@@ -0,0 +1,243 @@
+import { formatValue } from './formatValue';
+
+// Decoders validate data coming from across the application boundary,
+// e.g. from JSON.parse, instead of trusting it with the as-operator.
+// The static type is inferred from the decoder definition:
+//   const person = object({ name: string, age: optional(number) });
+//   type Person = TypeOf<typeof person>; // { name: string; age?: number | undefined; }
+
+export interface DecodeIssue {
+    // Location of the issue, e.g. "$.people[2].age".
+    path: string;
+    expected: string;
+    actual: string;
+    message: string;
+}
+
+export type DecodeResult<T> =
+    | { ok: true; value: T; }
+    | { ok: false; issues: DecodeIssue[]; }
+    ;
+
+export class DecodeError extends Error {
+    public readonly name: string = 'DecodeError';
+
+    constructor(public readonly issues: DecodeIssue[]) {
+        super(issues.map(issue => issue.message).join('\n'));
+    }
+}
+
+export class Decoder<T> {
+    constructor(
+        public readonly expected: string,
+        private readonly run: (input: any, path: string) => DecodeResult<T>
+    ) { }
+
+    public decode(input: any, path: string = '$'): DecodeResult<T> {
+        return this.run(input, path);
+    }
+
+    public decodeOrThrow(input: any): T {
+        const result: DecodeResult<T> = this.decode(input);
+        if (!result.ok) {
+            throw new DecodeError(result.issues);
+        }
+
+        return result.value;
+    }
+}
+
+// Marks properties of object decoders as optional.
+export class OptionalDecoder<T> extends Decoder<T | undefined> {
+    public readonly isOptional: true = true;
+}
+
+export type TypeOf<TDecoder> = TDecoder extends Decoder<infer T> ? T : never;
+
+export function describeActual(input: any): string {
+    if (Array.isArray(input)) {
+        return 'array';
+    }
+
+    return typeof input === 'object' && input !== null ? 'object' : formatValue(input, { maxLength: 40 });
+}
+
+function failure(path: string, expected: string, input: any): { ok: false; issues: DecodeIssue[]; } {
+    const actual: string = describeActual(input);
+    return { ok: false, issues: [{ path, expected, actual, message: `${path}: expected ${expected}, got ${actual}` }] };
+}
+
+function primitive<T>(expected: string, isValid: (input: any) => boolean): Decoder<T> {
+    return new Decoder<T>(expected, (input, path) => isValid(input)
+        ? { ok: true, value: input }
+        : failure(path, expected, input));
+}
+
+export const string: Decoder<string> = primitive('string', input => typeof input === 'string');
+// NaN is not considered a number, JSON can't represent it either.
+export const number: Decoder<number> = primitive('number', input => typeof input === 'number' && !isNaN(input));
+export const boolean: Decoder<boolean> = primitive('boolean', input => typeof input === 'boolean');
+export const unknown: Decoder<{} | undefined | null> = primitive('anything', () => true);
+
+export function literal<T extends string | number | boolean | null>(...values: T[]): Decoder<T> {
+    return primitive(values.map(value => formatValue(value)).join(' | '), input => values.indexOf(input) !== -1);
+}
+
+// Decodes with the decoder, but reports issues of the value itself
+// with the widened expectation, e.g. "expected string | null".
+function widen<T>(decoder: Decoder<T>, expected: string, path: string, input: any): DecodeResult<T> {
+    const result: DecodeResult<T> = decoder.decode(input, path);
+    if (!result.ok && result.issues.every(issue => issue.path === path)) {
+        return failure(path, expected, input);
+    }
+
+    return result;
+}
+
+export function optional<T>(decoder: Decoder<T>): OptionalDecoder<T> {
+    const expected: string = `${decoder.expected} | undefined`;
+    return new OptionalDecoder<T>(expected, (input, path) => input === undefined
+        ? { ok: true, value: undefined }
+        : widen<T>(decoder, expected, path, input));
+}
+
+export function nullable<T>(decoder: Decoder<T>): Decoder<T | null> {
+    const expected: string = `${decoder.expected} | null`;
+    return new Decoder<T | null>(expected, (input, path) => input === null
+        ? { ok: true, value: null }
+        : widen<T>(decoder, expected, path, input));
+}
+
+export function array<T>(element: Decoder<T>): Decoder<T[]> {
+    return new Decoder<T[]>(`${element.expected}[]`, (input, path) => {
+        if (!Array.isArray(input)) {
+            return failure(path, `${element.expected}[]`, input);
+        }
+
+        const value: T[] = [];
+        const issues: DecodeIssue[] = [];
+        input.forEach((item, index) => {
+            const result: DecodeResult<T> = element.decode(item, `${path}[${index}]`);
+            if (result.ok) {
+                value.push(result.value);
+            } else {
+                issues.push(...result.issues);
+            }
+        });
+
+        return issues.length === 0 ? { ok: true, value } : { ok: false, issues };
+    });
+}
+
+export interface Shape {
+    [property: string]: Decoder<any>;
+}
+
+type OptionalKeys<TShape> = { [P in keyof TShape]: TShape[P] extends OptionalDecoder<any> ? P : never }[keyof TShape];
+type RequiredKeys<TShape> = Exclude<keyof TShape, OptionalKeys<TShape>>;
+
+export type ObjectType<TShape> =
+    & { [P in RequiredKeys<TShape>]: TypeOf<TShape[P]> }
+    & { [P in OptionalKeys<TShape>]?: TypeOf<TShape[P]> };
+
+function propertyPath(path: string, property: string): string {
+    return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(property)
+        ? `${path}.${property}`
+        : `${path}[${JSON.stringify(property)}]`;
+}
+
+// Unknown properties are dropped, so the result only contains the declared ones.
+export function object<TShape extends Shape>(shape: TShape): Decoder<ObjectType<TShape>> {
+    return new Decoder<ObjectType<TShape>>('object', (input, path) => {
+        if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+            return failure(path, 'object', input);
+        }
+
+        const value: { [property: string]: any; } = {};
+        const issues: DecodeIssue[] = [];
+        for (const property of Object.keys(shape)) {
+            const result: DecodeResult<any> = shape[property].decode(input[property], propertyPath(path, property));
+            if (!result.ok) {
+                issues.push(...result.issues);
+            } else if (result.value !== undefined || property in input) {
+                value[property] = result.value;
+            }
+        }
+
+        return issues.length === 0 ? { ok: true, value: value as ObjectType<TShape> } : { ok: false, issues };
+    });
+}
+
+export function union<T1, T2>(d1: Decoder<T1>, d2: Decoder<T2>): Decoder<T1 | T2>;
+export function union<T1, T2, T3>(d1: Decoder<T1>, d2: Decoder<T2>, d3: Decoder<T3>): Decoder<T1 | T2 | T3>;
+export function union<T1, T2, T3, T4>(
+    d1: Decoder<T1>, d2: Decoder<T2>, d3: Decoder<T3>, d4: Decoder<T4>
+): Decoder<T1 | T2 | T3 | T4>;
+export function union<T1, T2, T3, T4, T5>(
+    d1: Decoder<T1>, d2: Decoder<T2>, d3: Decoder<T3>, d4: Decoder<T4>, d5: Decoder<T5>
+): Decoder<T1 | T2 | T3 | T4 | T5>;
+export function union<T>(...decoders: Decoder<T>[]): Decoder<T>;
+export function union(...decoders: Decoder<any>[]): Decoder<any> {
+    const expected: string = decoders.map(decoder => decoder.expected).join(' | ');
+    return new Decoder<any>(expected, (input, path) => {
+        for (const decoder of decoders) {
+            const result: DecodeResult<any> = decoder.decode(input, path);
+            if (result.ok) {
+                return result;
+            }
+        }
+
+        return failure(path, expected, input);
+    });
+}
+
+export type DiscriminatedUnionType<TDiscriminant extends string, TVariants> = {
+    [P in keyof TVariants]: TypeOf<TVariants[P]> & { [D in TDiscriminant]: P }
+}[keyof TVariants];
+
+// Picks the variant decoder by the discriminant, so issues are reported
+// for the matching variant only, instead of for every member of the union:
+//   discriminatedUnion('kind', { square: object({ size: number }), circle: object({ radius: number }) })
+export function discriminatedUnion<TDiscriminant extends string, TVariants extends { [tag: string]: Decoder<object>; }>(
+    discriminant: TDiscriminant,
+    variants: TVariants
+): Decoder<DiscriminatedUnionType<TDiscriminant, TVariants>> {
+    const tags: string[] = Object.keys(variants);
+    const expected: string = `${tags.map(tag => formatValue(tag)).join(' | ')}`;
+
+    return new Decoder<DiscriminatedUnionType<TDiscriminant, TVariants>>('object', (input, path) => {
+        if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+            return failure(path, 'object', input);
+        }
+
+        const tag: any = input[discriminant];
+        if (typeof tag !== 'string' || !Object.prototype.hasOwnProperty.call(variants, tag)) {
+            return failure(propertyPath(path, discriminant), expected, tag);
+        }
+
+        const result: DecodeResult<object> = variants[tag].decode(input, path);
+        if (!result.ok) {
+            return result;
+        }
+
+        // The variant decoder drops the discriminant like any other undeclared
+        // property, so it's added back. The tag was checked above, but the
+        // compiler can't relate a runtime string to a key of TVariants.
+        const value: { [property: string]: any; } = Object.assign({ [discriminant]: tag }, result.value);
+        return { ok: true, value: value as DiscriminatedUnionType<TDiscriminant, TVariants> };
+    });
+}
+
+export function parseJson<T>(decoder: Decoder<T>, json: string): DecodeResult<T> {
+    let input: any;
+    try {
+        input = JSON.parse(json);
+    } catch (error) {
+        return {
+            ok: false,
+            issues: [{ path: '$', expected: 'valid JSON', actual: 'invalid JSON', message: `$: ${error.message}` }]
+        };
+    }
+
+    return decoder.decode(input);
+}
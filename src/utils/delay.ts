@@ -1,44 +1,333 @@
-export function delay(milliseconds: number): Promise<void> {
-    return new Promise<void>(resolve => setTimeout(resolve, milliseconds));
+import { assertNever } from './assertNever';
+import {
+    CancellationController, CancellationSignal, CancelledError, raceCancellation, throwIfCancelled
+} from './cancellation';
+import { Clock, getClock, TimerHandle } from './clock';
+import { random } from './random';
+
+export function delay(milliseconds: number, signal?: CancellationSignal): Promise<void> {
+    const clock: Clock = getClock();
+
+    return new Promise<void>((resolve, reject) => {
+        if (signal === undefined) {
+            clock.setTimeout(resolve, milliseconds);
+            return;
+        }
+
+        if (signal.aborted) {
+            reject(new CancelledError());
+            return;
+        }
+
+        // Clear the timer when cancelled, so no timer is kept
+        // alive after the caller stopped waiting.
+        const onAbort = (): void => {
+            clock.clearTimeout(timer);
+            reject(new CancelledError());
+        };
+        const timer: TimerHandle = clock.setTimeout(() => {
+            signal.removeEventListener('abort', onAbort);
+            resolve();
+        }, milliseconds);
+        signal.addEventListener('abort', onAbort);
+    });
 }
 
-export async function delayWithResult<T>(result: T, milliseconds: number) {
-    await delay(milliseconds);
+export async function delayWithResult<T>(result: T, milliseconds: number, signal?: CancellationSignal) {
+    await delay(milliseconds, signal);
     return result;
 }
 
-export async function retrieve<T>(functor: () => T | Promise<T>): Promise<T> {
-    return await functor();
+export async function retrieve<T>(
+    functor: (signal?: CancellationSignal) => T | Promise<T>,
+    signal?: CancellationSignal
+): Promise<T> {
+    throwIfCancelled(signal);
+
+    // The signal is passed on to the functor, so chained helpers
+    // can clean up themselves, but we stop waiting either way.
+    return await raceCancellation(Promise.resolve(functor(signal)), signal);
+}
+
+export class TimeoutError extends Error {
+    public readonly name: string = 'TimeoutError';
+
+    constructor(public readonly milliseconds: number) {
+        super(`The operation timed out after ${milliseconds}ms.`);
+    }
+}
+
+export async function withTimeout<T>(
+    promise: Promise<T>,
+    milliseconds: number,
+    signal?: CancellationSignal
+): Promise<T> {
+    // The timer is cancelled once the promise settled,
+    // otherwise it would keep running until it elapsed.
+    const timer: CancellationController = new CancellationController();
+    const timeout: Promise<never> = delay(milliseconds, timer.signal).then(() => {
+        throw new TimeoutError(milliseconds);
+    });
+
+    try {
+        return await raceCancellation(Promise.race([promise, timeout]), signal);
+    } finally {
+        timer.abort();
+    }
+}
+
+// The backoff determines how long to wait before the next attempt.
+// - fixed:       always the same delay.
+// - exponential: initialDelay * factor ^ (attempt - 1), capped at maxDelay.
+// - jittered:    a random delay between zero and the exponential delay,
+//                so concurrent callers don't retry in lockstep.
+export type Backoff =
+    | { kind: 'fixed'; delay: number; }
+    | { kind: 'exponential'; initialDelay: number; factor?: number; maxDelay?: number; }
+    | { kind: 'jittered'; initialDelay: number; factor?: number; maxDelay?: number; }
+    ;
+
+export interface RetryPolicy {
+    backoff: Backoff;
+    maxAttempts?: number;
+    maxElapsed?: number;
+    shouldRetry?: (error: any, attempt: number) => boolean;
+}
+
+export interface RetryAttempt {
+    attempt: number;
+    error: any;
+    elapsed: number;
+}
+
+export class RetryExhaustedError extends Error {
+    public readonly name: string = 'RetryExhaustedError';
+
+    constructor(public readonly attempts: RetryAttempt[]) {
+        super(`The operation failed after ${attempts.length} attempt(s).`);
+    }
+
+    public get lastError(): any {
+        return this.attempts[this.attempts.length - 1].error;
+    }
+}
+
+export function getBackoffDelay(backoff: Backoff, attempt: number): number {
+    switch (backoff.kind) {
+        case 'fixed':
+            return backoff.delay;
+
+        case 'exponential':
+            return getExponentialDelay(backoff.initialDelay, backoff.factor, backoff.maxDelay, attempt);
+
+        case 'jittered':
+            return random() * getExponentialDelay(backoff.initialDelay, backoff.factor, backoff.maxDelay, attempt);
+
+        default:
+            return assertNever(backoff);
+    }
+}
+
+function getExponentialDelay(
+    initialDelay: number,
+    factor: number = 2,
+    maxDelay: number = Infinity,
+    attempt: number
+): number {
+    return Math.min(initialDelay * factor ** (attempt - 1), maxDelay);
 }
 
-export async function properRace<T1, T2>(
-    first: Promise<T1>,
-    second: Promise<T2>
-): Promise<{ promise: Promise<T1 | T2> }> {
+export async function retry<T>(
+    functor: (attempt: number, signal?: CancellationSignal) => T | Promise<T>,
+    policy: RetryPolicy,
+    signal?: CancellationSignal
+): Promise<T> {
+    const { backoff, maxAttempts = Infinity, maxElapsed = Infinity, shouldRetry = () => true } = policy;
+    const attempts: RetryAttempt[] = [];
+    const clock: Clock = getClock();
+    const start: number = clock.now();
+
+    for (let attempt = 1; ; ++attempt) {
+        try {
+            return await retrieve(() => functor(attempt, signal), signal);
+        } catch (error) {
+            // Cancellation and errors the policy does not consider
+            // transient are passed through unchanged.
+            if (error instanceof CancelledError || !shouldRetry(error, attempt)) {
+                throw error;
+            }
+
+            const elapsed: number = clock.now() - start;
+            attempts.push({ attempt, error, elapsed });
+
+            const nextDelay: number = getBackoffDelay(backoff, attempt);
+            if (attempt >= maxAttempts || elapsed + nextDelay > maxElapsed) {
+                throw new RetryExhaustedError(attempts);
+            }
+
+            await delay(nextDelay, signal);
+        }
+    }
+}
+
+export interface Fulfilled<T> {
+    status: 'fulfilled';
+    value: T;
+}
+
+export interface Rejected {
+    status: 'rejected';
+    reason: any;
+}
+
+export type Settled<T> = Fulfilled<T> | Rejected;
+
+// A settled promise together with its position in the raced tuple.
+// Checking the index narrows the type of the value.
+export type Settlement<I extends number, T> = { index: I; promise: Promise<T>; } & Settled<T>;
+
+function settle<T>(promise: Promise<T>, index: number): Promise<Settlement<number, T>> {
+    return promise.then(
+        (value: T): Settlement<number, T> => ({ index, promise, status: 'fulfilled', value }),
+        (reason: any): Settlement<number, T> => ({ index, promise, status: 'rejected', reason }));
+}
+
+export function properRace<T1, T2>(
+    promises: [Promise<T1>, Promise<T2>],
+    signal?: CancellationSignal
+): Promise<Settlement<0, T1> | Settlement<1, T2>>;
+export function properRace<T1, T2, T3>(
+    promises: [Promise<T1>, Promise<T2>, Promise<T3>],
+    signal?: CancellationSignal
+): Promise<Settlement<0, T1> | Settlement<1, T2> | Settlement<2, T3>>;
+export function properRace<T1, T2, T3, T4>(
+    promises: [Promise<T1>, Promise<T2>, Promise<T3>, Promise<T4>],
+    signal?: CancellationSignal
+): Promise<Settlement<0, T1> | Settlement<1, T2> | Settlement<2, T3> | Settlement<3, T4>>;
+export function properRace<T1, T2, T3, T4, T5>(
+    promises: [Promise<T1>, Promise<T2>, Promise<T3>, Promise<T4>, Promise<T5>],
+    signal?: CancellationSignal
+): Promise<Settlement<0, T1> | Settlement<1, T2> | Settlement<2, T3> | Settlement<3, T4> | Settlement<4, T5>>;
+export function properRace<T>(promises: Promise<T>[], signal?: CancellationSignal): Promise<Settlement<number, T>>;
+export async function properRace(
+    promises: Promise<any>[],
+    signal?: CancellationSignal
+): Promise<Settlement<number, any>> {
     // Promise.race is a function that will return a new
     // Promise and gets passed an iterable of Promises.
     // The result of the new Promise will be the result of
     // the first finished promise.
     // Unfortunately there is no way to identify which
     // Promise was the one finished.
+    if (promises.length === 0) {
+        // Racing nothing would never settle.
+        throw new RangeError('properRace requires at least one promise.');
+    }
+
+    // As a workaround we instead create new promises that
+    // always fulfil with the index and the settled state of
+    // the respective promise. This way a rejection is reported
+    // together with the promise that caused it, instead of
+    // escaping anonymously.
+    const settlements: Promise<Settlement<number, any>>[] = promises.map(settle);
+
+    // The wrapping object also keeps the original promise out of
+    // the JavaScript Promise chain, otherwise we would get the
+    // result of that promise instead of the promise itself.
+    return await raceCancellation(Promise.race(settlements), signal);
+}
+
+export type FulfilledSettlement<I extends number, T> = { index: I; promise: Promise<T>; } & Fulfilled<T>;
+
+export class AllRejectedError extends Error {
+    public readonly name: string = 'AllRejectedError';
+
+    // Reasons are in the same order as the promises.
+    constructor(public readonly reasons: any[]) {
+        super(`All ${reasons.length} promise(s) were rejected.`);
+    }
+}
+
+// Unlike properRace, which reports the first promise that settled, this
+// waits for the first promise that fulfilled. Rejections only matter once
+// every promise failed, then all reasons are reported together.
+export function settleFirst<T1, T2>(
+    promises: [Promise<T1>, Promise<T2>],
+    signal?: CancellationSignal
+): Promise<FulfilledSettlement<0, T1> | FulfilledSettlement<1, T2>>;
+export function settleFirst<T1, T2, T3>(
+    promises: [Promise<T1>, Promise<T2>, Promise<T3>],
+    signal?: CancellationSignal
+): Promise<FulfilledSettlement<0, T1> | FulfilledSettlement<1, T2> | FulfilledSettlement<2, T3>>;
+export function settleFirst<T1, T2, T3, T4>(
+    promises: [Promise<T1>, Promise<T2>, Promise<T3>, Promise<T4>],
+    signal?: CancellationSignal
+): Promise<
+    | FulfilledSettlement<0, T1> | FulfilledSettlement<1, T2> | FulfilledSettlement<2, T3> | FulfilledSettlement<3, T4>
+>;
+export function settleFirst<T1, T2, T3, T4, T5>(
+    promises: [Promise<T1>, Promise<T2>, Promise<T3>, Promise<T4>, Promise<T5>],
+    signal?: CancellationSignal
+): Promise<
+    | FulfilledSettlement<0, T1> | FulfilledSettlement<1, T2> | FulfilledSettlement<2, T3>
+    | FulfilledSettlement<3, T4> | FulfilledSettlement<4, T5>
+>;
+export function settleFirst<T>(
+    promises: Promise<T>[],
+    signal?: CancellationSignal
+): Promise<FulfilledSettlement<number, T>>;
+export async function settleFirst(
+    promises: Promise<any>[],
+    signal?: CancellationSignal
+): Promise<FulfilledSettlement<number, any>> {
+    if (promises.length === 0) {
+        // Nothing could ever fulfil.
+        throw new RangeError('settleFirst requires at least one promise.');
+    }
+
+    const firstFulfilled: Promise<FulfilledSettlement<number, any>> = new Promise((resolve, reject) => {
+        const reasons: any[] = [];
+        let remaining: number = promises.length;
+        promises.forEach((promise, index) => promise.then(
+            value => resolve({ index, promise, status: 'fulfilled', value }),
+            reason => {
+                reasons[index] = reason;
+                if (--remaining === 0) {
+                    reject(new AllRejectedError(reasons));
+                }
+            }));
+    });
+
+    return await raceCancellation(firstFulfilled, signal);
+}
+
+// Reports every promise in the order they settled, so rejections
+// of the promises that lost the race are surfaced too.
+export function raceAll<T1, T2>(
+    promises: [Promise<T1>, Promise<T2>],
+    signal?: CancellationSignal
+): Promise<(Settlement<0, T1> | Settlement<1, T2>)[]>;
+export function raceAll<T1, T2, T3>(
+    promises: [Promise<T1>, Promise<T2>, Promise<T3>],
+    signal?: CancellationSignal
+): Promise<(Settlement<0, T1> | Settlement<1, T2> | Settlement<2, T3>)[]>;
+export function raceAll<T1, T2, T3, T4>(
+    promises: [Promise<T1>, Promise<T2>, Promise<T3>, Promise<T4>],
+    signal?: CancellationSignal
+): Promise<(Settlement<0, T1> | Settlement<1, T2> | Settlement<2, T3> | Settlement<3, T4>)[]>;
+export function raceAll<T1, T2, T3, T4, T5>(
+    promises: [Promise<T1>, Promise<T2>, Promise<T3>, Promise<T4>, Promise<T5>],
+    signal?: CancellationSignal
+): Promise<(Settlement<0, T1> | Settlement<1, T2> | Settlement<2, T3> | Settlement<3, T4> | Settlement<4, T5>)[]>;
+export function raceAll<T>(promises: Promise<T>[], signal?: CancellationSignal): Promise<Settlement<number, T>[]>;
+export async function raceAll(
+    promises: Promise<any>[],
+    signal?: CancellationSignal
+): Promise<Settlement<number, any>[]> {
+    const settlements: Settlement<number, any>[] = [];
+    const recorded: Promise<void>[] = promises.map((promise, index) =>
+        settle(promise, index).then(settlement => { settlements.push(settlement); }));
 
-    // As a workaround we instead create an array of the
-    // promises, then create new promises that will return
-    // the index of the respective promise.
-    const promiseArray: Promise<T1 | T2>[] = [first, second];
-    const indexPromises: (Promise<number>)[] = 
-        promiseArray.map((promise, index) => promise.then(() => index));
-    
-    // Our promises returning an index can now be used with
-    // Promise.race, and we use the index to look up the
-    // original promise.
-    const firstFinishedIndex: number = await Promise.race(indexPromises);
-    const firstFinishedPromise: Promise<T1 | T2> = promiseArray[firstFinishedIndex];
-
-    // We need to wrap the promise in an object, otherwise
-    // the promise will become part of the JavaScript Promise
-    // chain and we will get the result of that promise.
-    return {
-        promise: firstFinishedPromise
-    };
+    await raceCancellation(Promise.all(recorded), signal);
+    return settlements;
 }
@@ -0,0 +1,92 @@
+export interface FormatValueOptions {
+    // Nested objects and arrays deeper than this are abbreviated.
+    maxDepth?: number;
+    maxLength?: number;
+}
+
+// Describes any value for error messages. Unlike template strings or
+// JSON.stringify it never throws: it handles objects without prototype,
+// cycles, throwing getters, symbols and functions.
+export function formatValue(value: any, options: FormatValueOptions = {}): string {
+    const { maxDepth = 3, maxLength = 200 } = options;
+    const formatted: string = format(value, maxDepth, []);
+    return formatted.length > maxLength
+        ? formatted.slice(0, maxLength - 3) + '...'
+        : formatted;
+}
+
+function format(value: any, depth: number, ancestors: any[]): string {
+    switch (typeof value) {
+        case 'string':
+            return `'${value.replace(/\\/g, '\\\\').replace(/'/g, '\\\'').replace(/\n/g, '\\n')}'`;
+
+        case 'number':
+        case 'boolean':
+        case 'undefined':
+            return String(value);
+
+        case 'symbol':
+            return value.toString();
+
+        case 'function':
+            return `[Function${value.name ? ` ${value.name}` : ''}]`;
+    }
+
+    if (value === null) {
+        return 'null';
+    }
+
+    // Other primitives not known to the compiler, e.g. bigint.
+    if (typeof value !== 'object') {
+        return safeString(value);
+    }
+
+    if (ancestors.indexOf(value) !== -1) {
+        return '[Circular]';
+    }
+
+    if (value instanceof Date) {
+        return isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString();
+    }
+
+    if (value instanceof Error) {
+        return `${value.name}: ${value.message}`;
+    }
+
+    const nested: any[] = [...ancestors, value];
+    if (Array.isArray(value)) {
+        if (depth <= 0) {
+            return value.length === 0 ? '[]' : '[...]';
+        }
+
+        return `[${value.map(item => format(item, depth - 1, nested)).join(', ')}]`;
+    }
+
+    const keys: string[] = Object.keys(value);
+    if (depth <= 0) {
+        return keys.length === 0 ? '{}' : '{...}';
+    }
+
+    const members: string[] = keys.map(key => `${formatKey(key)}: ${formatProperty(value, key, depth, nested)}`);
+    return members.length === 0 ? '{}' : `{ ${members.join(', ')} }`;
+}
+
+function formatKey(key: string): string {
+    return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? key : format(key, 0, []);
+}
+
+function formatProperty(value: any, key: string, depth: number, ancestors: any[]): string {
+    try {
+        return format(value[key], depth - 1, ancestors);
+    } catch {
+        return '[Getter threw]';
+    }
+}
+
+function safeString(value: any): string {
+    try {
+        return String(value);
+    } catch {
+        return '[Unprintable]';
+    }
+}
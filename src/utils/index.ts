@@ -1,5 +1,50 @@
-export { assertNever } from './assertNever';
-export { delay, delayWithResult, properRace, retrieve } from './delay';
-export { log, logTimestamped, logSpacer } from './log';
-export { oneOf } from './oneOf';
+import * as asyncIter from './asyncIter';
+import * as decoder from './decoder';
+import * as shapes from './shapes';
+
+export { asyncIter, decoder, shapes };
+export { assertNever, UnexpectedValueError, UnexpectedValueOptions } from './assertNever';
+export { CancellationController, CancellationSignal, CancelledError } from './cancellation';
+export { Clock, getClock, PendingTimer, realClock, setClock, TimerHandle, VirtualClock } from './clock';
+export {
+    ConfigError, ConfigExtras, ConfigIssue, ConfigOptions, configSchema, ConfigSchema, ConfigSource, ConfigSources,
+    ConfigType, ConfigValue, ConfigValueType, defaultServerOptions, loadConfig, loadServerOptions, ServerOptions,
+    serverOptionsSchema
+} from './config';
+export { ContractViolationError, ContractViolationHandling, withContract } from './contract';
+export {
+    AllRejectedError, Backoff, delay, delayWithResult, Fulfilled, FulfilledSettlement, getBackoffDelay, properRace,
+    raceAll, Rejected, retrieve, retry, RetryAttempt, RetryExhaustedError, RetryPolicy, settleFirst, Settled,
+    Settlement, TimeoutError, withTimeout
+} from './delay';
+export { formatValue, FormatValueOptions } from './formatValue';
+export { InvalidLiteralError, literalUnion, LiteralUnion, LiteralUnionType } from './literalUnion';
+export {
+    getSpanRecords, log, logSpacer, logSpanSummary, logTimestamped, resetSpans, Span, SpanRecord, startSpan,
+    toChromeTrace, withSpan, writeChromeTrace
+} from './log';
+export { captureLogs, CaptureOptions, CapturedLogs, LogAssertionError, LogPattern } from './logCapture';
+export {
+    ConsoleTransport, ConsoleTransportOptions, defaultLogger, formatTime, JsonLinesTransport, LogEntry, Logger,
+    LoggerOptions, LogLevel, logLevels, LogMetadata, LogTransport, MemoryTransport, TextStream
+} from './logger';
+export { match, Matcher, MatchHandlers, PartialMatchHandlers, Variant } from './match';
+export { filterDefined, firstDefined, isDefined, mapDefined, Maybe, Option } from './maybe';
+export { KnownProperties, omit, Omit, overwrite, Overwrite, pick, WithoutId, WithStringId } from './objects';
+export { oneOf, oneOfArray, sample, SampleOptions, weightedOneOf, WeightedValue } from './oneOf';
+export { runTasks, RunTasksOptions, Task, TaskPoolError, TaskQueue } from './pool';
+export {
+    Arbitrary, ArrayOptions, forAll, ForAllOptions, gen, NumberOptions, PropertyFailure, Shrinkable, StringOptions
+} from './property';
+export { Progress, ProgressEvent, ProgressOptions, ProgressProducer, trackProgress } from './progress';
+export {
+    createSeed, getRandomSource, getSeed, random, randomInt, RandomSource, reportSeedOnFailure, SeededRandom,
+    seedFromEnvironment, setRandomSource, setSeed, shuffle, withSeed, withSource
+} from './random';
+export { getObject as safeGetObject } from './safeJavaScript';
+export { MissingKeyError, SafeMap, SafeMapOptions } from './safeMap';
+export {
+    FoldHandlers, payload, Payload, taggedUnion, TaggedUnion, TaggedUnionDefinition, TaggedUnionHelpers, TaggedUnionKind,
+    TaggedUnionType, TaggedUnionVariant, TaggedVariants, VariantConstructors, VariantGuards
+} from './taggedUnion';
 export { getObject as unsafeGetObject } from './unsafeJavaScript';
@@ -0,0 +1,53 @@
+import { formatValue } from './formatValue';
+import { Option } from './maybe';
+
+// Defines a union of literal types once from its values, so the type
+// and the runtime checks can't drift apart:
+//   const kinds = literalUnion('string', 'number');
+//   type Kind = LiteralUnionType<typeof kinds>; // 'string' | 'number'
+export interface LiteralUnion<T extends string | number | boolean> {
+    // Frozen, in the order they were passed.
+    readonly values: ReadonlyArray<T>;
+    is(value: any): value is T;
+    // Returns the value with the narrowed type, or throws an InvalidLiteralError.
+    assert(value: any, context?: string): T;
+    parse(value: any): Option<T>;
+}
+
+export type LiteralUnionType<TUnion> = TUnion extends LiteralUnion<infer T> ? T : never;
+
+export class InvalidLiteralError extends Error {
+    public readonly name: string = 'InvalidLiteralError';
+
+    // Messages look like "Invalid Kind: expected 'string' | 'number', got 'invalid'".
+    constructor(
+        public readonly value: any,
+        public readonly allowedValues: ReadonlyArray<string | number | boolean>,
+        context?: string
+    ) {
+        super(`Invalid ${context !== undefined ? context : 'value'}: ` +
+            `expected ${allowedValues.map(allowed => formatValue(allowed)).join(' | ')}, got ${formatValue(value)}`);
+    }
+}
+
+export function literalUnion<T extends string | number | boolean>(...values: T[]): LiteralUnion<T> {
+    if (values.length === 0) {
+        throw new RangeError('literalUnion requires at least one value.');
+    }
+
+    const frozenValues: ReadonlyArray<T> = Object.freeze(values.slice());
+    const is = (value: any): value is T => frozenValues.indexOf(value) !== -1;
+
+    return {
+        values: frozenValues,
+        is,
+        assert: (value, context) => {
+            if (!is(value)) {
+                throw new InvalidLiteralError(value, frozenValues, context);
+            }
+
+            return value;
+        },
+        parse: value => is(value) ? Option.of(value) : Option.none<T>()
+    };
+}
@@ -1,20 +1,134 @@
+import { getClock } from './clock';
+import { defaultLogger, formatTime, TextStream } from './logger';
+
 export function log(message: string | number | boolean): void {
-    console.log(message);
+    defaultLogger.info(String(message));
 }
 
 export function logTimestamped(message: string | number | boolean): void {
-    const date: Date = new Date();
-    const timestamp: string =
-        ('0' + date.getHours()).slice(-2) + ':' +
-        ('0' + date.getMinutes()).slice(-2) + ':' +
-        ('0' + date.getSeconds()).slice(-2) + '.' +
-        ('000' + date.getMilliseconds()).slice(-4);
-
-    console.log(`${timestamp}   ${message}`);
+    const timestamp: string = formatTime(getClock().now());
+    defaultLogger.info(`${timestamp}   ${message}`);
 }
 
 export function logSpacer(): void {
-    console.log('');
-    console.log('---');
-    console.log('');
+    defaultLogger.info('');
+    defaultLogger.info('---');
+    defaultLogger.info('');
+}
+
+export interface SpanRecord {
+    name: string;
+    // Names of all parent spans and the span itself.
+    path: string[];
+    start: number;
+    duration: number;
+}
+
+const finishedSpans: SpanRecord[] = [];
+
+export class Span {
+    public readonly start: number = getClock().monotonic();
+    private duration: number | undefined = undefined;
+
+    constructor(public readonly name: string, public readonly parent?: Span) { }
+
+    public get path(): string[] {
+        return this.parent !== undefined ? [...this.parent.path, this.name] : [this.name];
+    }
+
+    public get isEnded(): boolean {
+        return this.duration !== undefined;
+    }
+
+    public startSpan(name: string): Span {
+        return new Span(name, this);
+    }
+
+    // Ends the span, logs and records the duration. Ending
+    // a span twice has no effect and returns the first duration.
+    public end(): number {
+        if (this.duration !== undefined) {
+            return this.duration;
+        }
+
+        this.duration = getClock().monotonic() - this.start;
+        finishedSpans.push({ name: this.name, path: this.path, start: this.start, duration: this.duration });
+
+        const indentation: string = '  '.repeat(this.path.length - 1);
+        logTimestamped(`${indentation}${this.name} took ${this.duration.toFixed(1)}ms`);
+        return this.duration;
+    }
+}
+
+export function startSpan(name: string, parent?: Span): Span {
+    return new Span(name, parent);
+}
+
+// Wraps an action in a span that is ended once the action settled.
+export async function withSpan<T>(
+    name: string,
+    action: (span: Span) => T | Promise<T>,
+    parent?: Span
+): Promise<T> {
+    const span: Span = startSpan(name, parent);
+    try {
+        return await action(span);
+    } finally {
+        span.end();
+    }
+}
+
+export function getSpanRecords(): SpanRecord[] {
+    return finishedSpans.slice();
+}
+
+export function resetSpans(): void {
+    finishedSpans.length = 0;
+}
+
+// Aggregates all finished spans by their path, in the order
+// the paths were first started.
+export function logSpanSummary(): void {
+    const summaries: { [path: string]: { depth: number; durations: number[]; }; } = {};
+    const order: string[] = [];
+
+    for (const record of finishedSpans.slice().sort((a, b) => a.start - b.start)) {
+        const path: string = record.path.join(' > ');
+        if (summaries[path] === undefined) {
+            summaries[path] = { depth: record.path.length - 1, durations: [] };
+            order.push(path);
+        }
+        summaries[path].durations.push(record.duration);
+    }
+
+    log('Span summary (count, total, average, min, max in ms):');
+    for (const path of order) {
+        const { depth, durations } = summaries[path];
+        const total: number = durations.reduce((sum, duration) => sum + duration, 0);
+        log(`${'  '.repeat(depth + 1)}${path}: ${durations.length}x, ` +
+            `${total.toFixed(1)}, ${(total / durations.length).toFixed(1)}, ` +
+            `${Math.min(...durations).toFixed(1)}, ${Math.max(...durations).toFixed(1)}`);
+    }
+}
+
+// Complete events in the Chrome trace event format, load the
+// JSON in chrome://tracing or https://ui.perfetto.dev
+export function toChromeTrace(): { traceEvents: object[]; } {
+    return {
+        traceEvents: finishedSpans.map(record => ({
+            name: record.name,
+            cat: record.path.slice(0, -1).join(' > ') || 'root',
+            ph: 'X',
+            // The format expects microseconds.
+            ts: Math.round(record.start * 1000),
+            dur: Math.round(record.duration * 1000),
+            pid: 1,
+            tid: 1,
+            args: { path: record.path.join(' > ') }
+        }))
+    };
+}
+
+export function writeChromeTrace(stream: TextStream): void {
+    stream.write(JSON.stringify(toChromeTrace()));
 }
@@ -0,0 +1,113 @@
+import { defaultLogger, LogEntry, Logger, LogLevel, LogTransport, MemoryTransport } from './logger';
+
+export type LogPattern = string | RegExp;
+
+export class LogAssertionError extends Error {
+    public readonly name: string = 'LogAssertionError';
+
+    constructor(expectation: string, public readonly entries: LogEntry[]) {
+        super(`${expectation}\nCaptured messages:\n${
+            entries.map(entry => `  [${entry.level}] ${entry.message}`).join('\n') || '  <none>'}`);
+    }
+}
+
+function matches(entry: LogEntry, pattern: LogPattern): boolean {
+    return typeof pattern === 'string'
+        ? entry.message.indexOf(pattern) !== -1
+        : pattern.test(entry.message);
+}
+
+function describe(pattern: LogPattern): string {
+    return typeof pattern === 'string' ? `"${pattern}"` : pattern.toString();
+}
+
+export class CapturedLogs {
+    constructor(public readonly entries: LogEntry[]) { }
+
+    public get messages(): string[] {
+        return this.entries.map(entry => entry.message);
+    }
+
+    public withLevel(level: LogLevel): CapturedLogs {
+        return new CapturedLogs(this.entries.filter(entry => entry.level === level));
+    }
+
+    public find(pattern: LogPattern): LogEntry | undefined {
+        return this.entries.filter(entry => matches(entry, pattern))[0];
+    }
+
+    public assertContains(pattern: LogPattern): LogEntry {
+        const entry: LogEntry | undefined = this.find(pattern);
+        if (entry === undefined) {
+            throw new LogAssertionError(`Expected a message matching ${describe(pattern)}.`, this.entries);
+        }
+
+        return entry;
+    }
+
+    public assertNotContains(pattern: LogPattern): void {
+        if (this.find(pattern) !== undefined) {
+            throw new LogAssertionError(`Expected no message matching ${describe(pattern)}.`, this.entries);
+        }
+    }
+
+    public assertCount(pattern: LogPattern, count: number): void {
+        const actual: number = this.entries.filter(entry => matches(entry, pattern)).length;
+        if (actual !== count) {
+            throw new LogAssertionError(
+                `Expected ${count} message(s) matching ${describe(pattern)}, found ${actual}.`,
+                this.entries);
+        }
+    }
+
+    // The patterns have to match in the given order,
+    // other messages in between are allowed.
+    public assertOrder(patterns: LogPattern[]): void {
+        let position: number = 0;
+        for (const pattern of patterns) {
+            while (position < this.entries.length && !matches(this.entries[position], pattern)) {
+                ++position;
+            }
+
+            if (position === this.entries.length) {
+                throw new LogAssertionError(
+                    `Expected messages in order ${patterns.map(describe).join(', ')}, ` +
+                    `but found no ${describe(pattern)} at the expected position.`,
+                    this.entries);
+            }
+
+            ++position;
+        }
+    }
+}
+
+export interface CaptureOptions {
+    // Defaults to the logger used by log(), logTimestamped() and logSpacer().
+    logger?: Logger;
+    // Also write the entries to the original transports.
+    passThrough?: boolean;
+}
+
+// Records everything logged while the action runs. The original
+// transports of the logger are restored afterwards, even on errors.
+export async function captureLogs(
+    action: () => void | Promise<void>,
+    options: CaptureOptions = {}
+): Promise<CapturedLogs> {
+    const { logger = defaultLogger, passThrough = false } = options;
+    const memory: MemoryTransport = new MemoryTransport();
+
+    // The array is modified in place, as it's shared with all child loggers.
+    const original: LogTransport[] = logger.transports.splice(0, logger.transports.length, memory);
+    if (passThrough) {
+        logger.transports.push(...original);
+    }
+
+    try {
+        await action();
+    } finally {
+        logger.transports.splice(0, logger.transports.length, ...original);
+    }
+
+    return new CapturedLogs(memory.entries);
+}
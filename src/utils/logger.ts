@@ -0,0 +1,206 @@
+import { getClock } from './clock';
+import { formatValue } from './formatValue';
+
+export type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error';
+
+// Ordered from the most to the least verbose level.
+export const logLevels: LogLevel[] = ['trace', 'debug', 'info', 'warn', 'error'];
+
+export interface LogMetadata {
+    [key: string]: any;
+}
+
+export interface LogEntry {
+    timestamp: number;
+    level: LogLevel;
+    message: string;
+    // Fields bound to the logger, and fields passed with the message.
+    context: LogMetadata;
+    metadata: LogMetadata;
+}
+
+export interface LogTransport {
+    write(entry: LogEntry): void;
+}
+
+export interface LoggerOptions {
+    level?: LogLevel;
+    transports?: LogTransport[];
+    context?: LogMetadata;
+}
+
+export class Logger {
+    public level: LogLevel;
+    public readonly context: LogMetadata;
+
+    // Shared by reference with all child loggers, so transports added
+    // to a logger later on receive the entries of its children too.
+    public readonly transports: LogTransport[];
+
+    constructor(options: LoggerOptions = {}) {
+        this.level = options.level || 'info';
+        this.transports = options.transports || [];
+        this.context = options.context || {};
+    }
+
+    public isEnabled(level: LogLevel): boolean {
+        return logLevels.indexOf(level) >= logLevels.indexOf(this.level);
+    }
+
+    public log(level: LogLevel, message: string, metadata: LogMetadata = {}): void {
+        if (!this.isEnabled(level)) {
+            return;
+        }
+
+        const entry: LogEntry = {
+            timestamp: getClock().now(),
+            level,
+            message,
+            context: this.context,
+            metadata
+        };
+
+        for (const transport of this.transports) {
+            transport.write(entry);
+        }
+    }
+
+    public trace(message: string, metadata?: LogMetadata): void { this.log('trace', message, metadata); }
+    public debug(message: string, metadata?: LogMetadata): void { this.log('debug', message, metadata); }
+    public info(message: string, metadata?: LogMetadata): void { this.log('info', message, metadata); }
+    public warn(message: string, metadata?: LogMetadata): void { this.log('warn', message, metadata); }
+    public error(message: string, metadata?: LogMetadata): void { this.log('error', message, metadata); }
+
+    public child(context: LogMetadata): Logger {
+        return new Logger({
+            level: this.level,
+            transports: this.transports,
+            context: Object.assign({}, this.context, context)
+        });
+    }
+}
+
+export function formatTime(timestamp: number): string {
+    const date: Date = new Date(timestamp);
+    return ('0' + date.getHours()).slice(-2) + ':' +
+        ('0' + date.getMinutes()).slice(-2) + ':' +
+        ('0' + date.getSeconds()).slice(-2) + '.' +
+        ('00' + date.getMilliseconds()).slice(-3);
+}
+
+// JSON.stringify throws on cycles and BigInts, but logging must never
+// throw because of the metadata of the caller.
+function canStringify(value: any): boolean {
+    try {
+        JSON.stringify(value);
+        return true;
+    } catch (error) {
+        return false;
+    }
+}
+
+function formatField(value: any): string {
+    if (typeof value === 'string') {
+        return value;
+    }
+
+    return canStringify(value) ? String(JSON.stringify(value)) : formatValue(value);
+}
+
+function formatFields(fields: LogMetadata): string {
+    return Object.keys(fields)
+        .map(key => `${key}=${formatField(fields[key])}`)
+        .join(' ');
+}
+
+export interface ConsoleTransportOptions {
+    timestamp?: boolean;
+    level?: boolean;
+}
+
+// Human readable output, e.g. "12:00:01.042 INFO  Download started. file=data.zip"
+export class ConsoleTransport implements LogTransport {
+    constructor(private readonly options: ConsoleTransportOptions = {}) { }
+
+    public write(entry: LogEntry): void {
+        const { timestamp = true, level = true } = this.options;
+        const parts: string[] = [];
+        if (timestamp) {
+            parts.push(formatTime(entry.timestamp));
+        }
+        if (level) {
+            parts.push((entry.level.toUpperCase() + ' ').slice(0, 5));
+        }
+        parts.push(entry.message);
+
+        const fields: string = formatFields(Object.assign({}, entry.context, entry.metadata));
+        if (fields !== '') {
+            parts.push(fields);
+        }
+
+        const line: string = parts.join(' ');
+        switch (entry.level) {
+            case 'warn':
+                console.warn(line);
+                break;
+
+            case 'error':
+                console.error(line);
+                break;
+
+            default:
+                console.log(line);
+                break;
+        }
+    }
+}
+
+// Anything with a write method, e.g. fs.createWriteStream().
+export interface TextStream {
+    write(chunk: string): any;
+}
+
+// One JSON object per line, see http://jsonlines.org
+export class JsonLinesTransport implements LogTransport {
+    constructor(private readonly stream: TextStream) { }
+
+    public write(entry: LogEntry): void {
+        const line: LogMetadata = Object.assign({}, entry.context, entry.metadata, {
+            time: new Date(entry.timestamp).toISOString(),
+            level: entry.level,
+            message: entry.message
+        });
+
+        // Fields that can't be serialized are replaced by their description.
+        const safeLine: LogMetadata = {};
+        for (const key of Object.keys(line)) {
+            safeLine[key] = canStringify(line[key]) ? line[key] : formatValue(line[key]);
+        }
+
+        this.stream.write(JSON.stringify(safeLine) + '\n');
+    }
+}
+
+export class MemoryTransport implements LogTransport {
+    public readonly entries: LogEntry[] = [];
+
+    constructor(private readonly limit: number = Infinity) { }
+
+    public write(entry: LogEntry): void {
+        this.entries.push(entry);
+        if (this.entries.length > this.limit) {
+            this.entries.shift();
+        }
+    }
+
+    public clear(): void {
+        this.entries.length = 0;
+    }
+}
+
+// The logger used by log(), logTimestamped() and logSpacer(). It prints
+// the plain messages, exactly like console.log() would.
+export const defaultLogger: Logger = new Logger({
+    level: 'trace',
+    transports: [new ConsoleTransport({ timestamp: false, level: false })]
+});
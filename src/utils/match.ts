@@ -0,0 +1,44 @@
+import { UnexpectedValueError } from './assertNever';
+
+// The member of the union T whose property K is the literal V.
+export type Variant<T, K extends keyof T, V> = Extract<T, { [P in K]: V }>;
+
+// One handler for every discriminant value, each receiving the narrowed variant.
+export type MatchHandlers<T, K extends keyof T, R> = {
+    [V in Extract<T[K], string>]: (variant: Variant<T, K, V>) => R;
+};
+
+// Some handlers and a "_" wildcard for all remaining values.
+export type PartialMatchHandlers<T, K extends keyof T, R> =
+    Partial<MatchHandlers<T, K, R>> & { _: (value: T) => R; };
+
+export interface Matcher<T, K extends keyof T> {
+    <R>(handlers: MatchHandlers<T, K, R>): R;
+    <R>(handlers: PartialMatchHandlers<T, K, R>): R;
+}
+
+// Calls the handler for the discriminant of the value:
+//   match(shape, 'kind')({ square: s => ..., rectangle: r => ..., circle: c => ... })
+// Without a wildcard a handler is required for each variant, so adding a
+// variant to the union breaks the build until it's handled, just like a
+// switch with assertNever.
+// The handlers are passed in a second call, because the compiler can only
+// infer the parameter types of the handlers once the union type is known.
+export function match<T, K extends keyof T>(value: T, key: K): Matcher<T, K> {
+    return (handlers: { [discriminant: string]: ((value: any) => any) | undefined; }): any => {
+        const discriminant: any = value[key];
+
+        // Only own properties are handlers, so e.g. 'toString' can't
+        // accidentally resolve to a method of the object prototype.
+        const isHandled: boolean =
+            typeof discriminant === 'string' && Object.prototype.hasOwnProperty.call(handlers, discriminant);
+        const handler: ((value: any) => any) | undefined = isHandled ? handlers[discriminant] : handlers._;
+        if (handler !== undefined) {
+            return handler(value);
+        }
+
+        // Only reachable with values that don't match their type,
+        // e.g. data coming from across the application boundary.
+        throw new UnexpectedValueError(value, { discriminant: key as string });
+    };
+}
@@ -0,0 +1,113 @@
+// A value that might be missing. Like the lessons, undefined is used for
+// values that were never set and null for values explicitly set to nothing,
+// the helpers treat both as missing.
+export type Maybe<T> = T | undefined | null;
+
+export function isDefined<T>(value: Maybe<T>): value is T {
+    return value !== undefined && value !== null;
+}
+
+// Unlike items.filter(item => item !== undefined), the result is narrowed,
+// so it can be used with map() without the non-null assertion operator.
+export function filterDefined<T, TResult extends T>(
+    items: Maybe<T>[],
+    predicate: (value: T, index: number) => value is TResult
+): TResult[];
+export function filterDefined<T>(items: Maybe<T>[], predicate?: (value: T, index: number) => boolean): T[];
+export function filterDefined<T>(items: Maybe<T>[], predicate?: (value: T, index: number) => boolean): T[] {
+    const result: T[] = [];
+    items.forEach((item, index) => {
+        if (isDefined(item) && (predicate === undefined || predicate(item, index))) {
+            result.push(item);
+        }
+    });
+
+    return result;
+}
+
+// Maps the defined items, and drops missing results of the selector.
+export function mapDefined<T, TResult>(
+    items: Maybe<T>[],
+    selector: (value: T, index: number) => Maybe<TResult>
+): TResult[] {
+    const result: TResult[] = [];
+    items.forEach((item, index) => {
+        if (isDefined(item)) {
+            const selected: Maybe<TResult> = selector(item, index);
+            if (isDefined(selected)) {
+                result.push(selected);
+            }
+        }
+    });
+
+    return result;
+}
+
+// Returns the first defined item, or the first defined result of the selector.
+// The selector is not called for the remaining items.
+export function firstDefined<T>(items: Maybe<T>[]): T | undefined;
+export function firstDefined<T, TResult>(
+    items: Maybe<T>[],
+    selector: (value: T, index: number) => Maybe<TResult>
+): TResult | undefined;
+export function firstDefined(items: any[], selector?: (value: any, index: number) => any): any {
+    for (let index = 0; index < items.length; ++index) {
+        const item: any = items[index];
+        const selected: any = isDefined(item) && selector !== undefined ? selector(item, index) : item;
+        if (isDefined(selected)) {
+            return selected;
+        }
+    }
+
+    return undefined;
+}
+
+// Wraps a value that might be missing, so it can be transformed
+// without checking for undefined and null after every step:
+//   Option.of(person).map(p => p.job).getOrElse('unemployed')
+export class Option<T> {
+    private static readonly noValue: Option<any> = new Option<any>(undefined);
+
+    private constructor(private readonly value: T | undefined) { }
+
+    public static of<T>(value: Maybe<T>): Option<T> {
+        return isDefined(value) ? new Option<T>(value) : Option.none<T>();
+    }
+
+    public static none<T>(): Option<T> {
+        return Option.noValue;
+    }
+
+    public isSome(): boolean {
+        return this.value !== undefined;
+    }
+
+    public isNone(): boolean {
+        return this.value === undefined;
+    }
+
+    // A missing result of the selector results in none.
+    public map<TResult>(selector: (value: T) => Maybe<TResult>): Option<TResult> {
+        return this.value !== undefined ? Option.of(selector(this.value)) : Option.none<TResult>();
+    }
+
+    public flatMap<TResult>(selector: (value: T) => Option<TResult>): Option<TResult> {
+        return this.value !== undefined ? selector(this.value) : Option.none<TResult>();
+    }
+
+    public filter(predicate: (value: T) => boolean): Option<T> {
+        return this.value !== undefined && predicate(this.value) ? this : Option.none<T>();
+    }
+
+    public getOrElse<TFallback>(fallback: TFallback): T | TFallback {
+        return this.value !== undefined ? this.value : fallback;
+    }
+
+    public toNullable(): T | null {
+        return this.value !== undefined ? this.value : null;
+    }
+
+    public toUndefined(): T | undefined {
+        return this.value;
+    }
+}
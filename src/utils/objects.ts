@@ -0,0 +1,73 @@
+// Runtime counterparts of the mapped types of lesson 08, so the copies
+// of objects can't drift apart from their types. Only own enumerable
+// properties are copied, like the spread operator does.
+//
+// The types are the ones of the lesson, but written with Exclude instead
+// of the Diff trick, which only resolves for concrete types and not for
+// the generic keys of the functions below. Pick is the built-in one.
+
+export type Omit<T, K extends keyof T> = Pick<T, Exclude<keyof T, K>>;
+export type Overwrite<T, U> = Pick<T, Exclude<keyof T, keyof U>> & U;
+
+export type WithoutId<T extends { id: any; }> = Omit<T, 'id'>;
+export type WithStringId<T extends { id: any; }> = Overwrite<T, { id: string; }>;
+
+// Properties of the patch that don't exist on the object are rejected,
+// overwrite() replaces properties, it doesn't add new ones. Extract keeps
+// the mapped type working with TypeScript 2.8, where keys must be strings.
+export type KnownProperties<T, U> = { [P in Extract<Exclude<keyof U, keyof T>, string>]: never };
+
+function isOwnEnumerable(object: object, key: PropertyKey): boolean {
+    return Object.prototype.propertyIsEnumerable.call(object, key);
+}
+
+// The keys the spread operator copies, Object.keys() skips the symbols.
+function ownEnumerableKeys(object: object): PropertyKey[] {
+    const symbols: PropertyKey[] = Object.getOwnPropertySymbols(object).filter(key => isOwnEnumerable(object, key));
+    return (Object.keys(object) as PropertyKey[]).concat(symbols);
+}
+
+// Unlike an assignment, this creates an own property for "__proto__" too.
+function copyProperty(target: object, key: PropertyKey, value: any): void {
+    Object.defineProperty(target, key, { value, enumerable: true, writable: true, configurable: true });
+}
+
+//   pick(cookie, 'name', 'price') // { name: 'Cookie', price: 0.99 }
+// Keys of optional properties that aren't set are left out.
+export function pick<T extends object, K extends keyof T>(object: T, ...keys: K[]): Pick<T, K> {
+    const result: object = {};
+    for (const key of keys) {
+        if (isOwnEnumerable(object, key)) {
+            copyProperty(result, key, object[key]);
+        }
+    }
+
+    return result as Pick<T, K>;
+}
+
+//   omit(cookie, 'id') // { name: 'Cookie', price: 0.99 }
+export function omit<T extends object, K extends keyof T>(object: T, ...keys: K[]): Omit<T, K> {
+    // Object.keys() returns strings, also for numeric keys.
+    const omitted: PropertyKey[] = keys.map(key => typeof key === 'symbol' ? key : String(key));
+    const result: object = {};
+    for (const key of ownEnumerableKeys(object)) {
+        if (omitted.indexOf(key) === -1) {
+            copyProperty(result, key, Reflect.get(object, key));
+        }
+    }
+
+    return result as Omit<T, K>;
+}
+
+// Replaces properties of the object, their types can change:
+//   overwrite(cookie, { id: 'cookie' }) // { id: 'cookie', name: 'Cookie', price: 0.99 }
+export function overwrite<T extends object, U extends object>(object: T, patch: U & KnownProperties<T, U>): Overwrite<T, U> {
+    const result: object = {};
+    for (const source of [object, patch]) {
+        for (const key of ownEnumerableKeys(source)) {
+            copyProperty(result, key, Reflect.get(source, key));
+        }
+    }
+
+    return result as Overwrite<T, U>;
+}
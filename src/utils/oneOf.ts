@@ -1,8 +1,91 @@
+import { getRandomSource, randomInt, RandomSource, shuffle } from './random';
+
+// Up to five options, each of its own type. TypeScript can't infer a union
+// from a rest parameter, use oneOfArray() for any number of options.
+// Draws from the global source, a trailing source argument would be taken
+// for an option. Pass one to oneOfArray(), or wrap the call in withSource().
 export function oneOf<T1, T2>(v1: T1, v2: T2): T1 | T2;
 export function oneOf<T1, T2, T3>(v1: T1, v2: T2, v3: T3): T1 | T2 | T3;
 export function oneOf<T1, T2, T3, T4>(v1: T1, v2: T2, v3: T3, v4: T4): T1 | T2 | T3 | T4;
 export function oneOf<T1, T2, T3, T4, T5>(v1: T1, v2: T2, v3: T3, v4: T4, v5: T5): T1 | T2 | T3 | T4 | T5;
 export function oneOf(...options: any[]): any {
-    const index: number = Math.floor(Math.random() * options.length);
+    return oneOfArray(options);
+}
+
+// The variadic form of oneOf(), taking the options as an array literal
+// instead of separate arguments. The element type of an array literal is
+// the union of all elements, so any number of options of different types
+// can be passed: oneOfArray([1, 'a', true, null, { x: 1 }, [2]]).
+export function oneOfArray<T>(options: T[], source: RandomSource = getRandomSource()): T {
+    if (options.length === 0) {
+        throw new RangeError('oneOfArray requires at least one option.');
+    }
+
+    const index: number = Math.floor(source.next() * options.length);
     return options[index];
 }
+
+// Unwraps the value type from the [value, weight] tuples.
+export type WeightedValue<TOption> = TOption extends [infer TValue, number] ? TValue : never;
+
+// Picks a value with a probability proportional to its weight, e.g.
+// weightedOneOf([['milk', 9], [undefined, 1]]) returns undefined 10% of the time.
+export function weightedOneOf<TOptions extends [any, number][]>(
+    options: TOptions,
+    source: RandomSource = getRandomSource()
+): WeightedValue<TOptions[number]> {
+    const total: number = options.reduce((sum, [, weight]) => {
+        if (!(weight >= 0) || weight === Infinity) {
+            throw new RangeError(`Weights must be finite and not negative, got ${weight}.`);
+        }
+
+        return sum + weight;
+    }, 0);
+
+    if (total === 0) {
+        throw new RangeError('weightedOneOf requires at least one option with a positive weight.');
+    }
+
+    let remaining: number = source.next() * total;
+    for (const [value, weight] of options) {
+        remaining -= weight;
+        if (remaining < 0) {
+            return value;
+        }
+    }
+
+    // Rounding errors can leave a tiny remainder,
+    // fall back to the last option with a weight.
+    return options.filter(([, weight]) => weight > 0).slice(-1)[0][0];
+}
+
+export interface SampleOptions {
+    // Never return the same option twice, defaults to false.
+    unique?: boolean;
+    source?: RandomSource;
+}
+
+// Picks "count" options, with or without repetition.
+export function sample<T>(options: T[], count: number, sampleOptions: SampleOptions = {}): T[] {
+    const { unique = false, source } = sampleOptions;
+    if (!Number.isInteger(count) || count < 0) {
+        throw new RangeError(`The count must be a non-negative integer, got ${count}.`);
+    }
+    if (unique && count > options.length) {
+        throw new RangeError(`Can't pick ${count} unique options out of ${options.length}.`);
+    }
+    if (!unique && count > 0 && options.length === 0) {
+        throw new RangeError('sample requires at least one option.');
+    }
+
+    if (unique) {
+        return shuffle(options, source).slice(0, count);
+    }
+
+    const result: T[] = [];
+    for (let i = 0; i < count; ++i) {
+        result.push(options[randomInt(0, options.length - 1, source)]);
+    }
+
+    return result;
+}
@@ -0,0 +1,172 @@
+import { CancellationController, CancellationSignal, CancelledError, raceCancellation } from './cancellation';
+import { Fulfilled, Settled } from './delay';
+
+export type Task<T> = (signal?: CancellationSignal) => T | Promise<T>;
+
+interface QueuedTask {
+    readonly task: Task<any>;
+    readonly priority: number;
+    readonly sequence: number;
+    readonly resolve: (value: any) => void;
+    readonly reject: (reason: any) => void;
+}
+
+// Runs added tasks with at most "concurrency" tasks in flight.
+// Tasks with a higher priority start first, tasks with the same
+// priority start in the order they were added.
+export class TaskQueue {
+    private queued: QueuedTask[] = [];
+    private running: number = 0;
+    private nextSequence: number = 0;
+    private paused: boolean = false;
+    private controller: CancellationController = new CancellationController();
+    private idleListeners: (() => void)[] = [];
+
+    constructor(public readonly concurrency: number) {
+        if (!(concurrency >= 1)) {
+            throw new RangeError(`Concurrency must be at least 1, got ${concurrency}.`);
+        }
+    }
+
+    public get size(): number { return this.queued.length; }
+    public get pending(): number { return this.running; }
+    public get isPaused(): boolean { return this.paused; }
+
+    public add<T>(task: Task<T>, priority: number = 0): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            this.queued.push({ task, priority, sequence: this.nextSequence++, resolve, reject });
+            this.next();
+        });
+    }
+
+    // Paused queues finish the running tasks, but start no new ones.
+    public pause(): void {
+        this.paused = true;
+    }
+
+    public resume(): void {
+        this.paused = false;
+        this.next();
+    }
+
+    // Rejects all queued and running tasks and signals the running tasks to
+    // stop. They keep their slots until they actually stopped.
+    public cancel(): void {
+        const cancelled: QueuedTask[] = this.queued;
+        this.queued = [];
+        this.controller.abort();
+        this.controller = new CancellationController();
+
+        for (const entry of cancelled) {
+            entry.reject(new CancelledError());
+        }
+        this.notifyIfIdle();
+    }
+
+    // Resolves once no task is queued or running anymore.
+    public drain(): Promise<void> {
+        return new Promise<void>(resolve => {
+            this.idleListeners.push(resolve);
+            this.notifyIfIdle();
+        });
+    }
+
+    private next(): void {
+        while (!this.paused && this.running < this.concurrency && this.queued.length > 0) {
+            this.start(this.dequeue());
+        }
+    }
+
+    private dequeue(): QueuedTask {
+        let best: number = 0;
+        for (let i = 1; i < this.queued.length; ++i) {
+            const candidate: QueuedTask = this.queued[i];
+            const current: QueuedTask = this.queued[best];
+            if (candidate.priority > current.priority ||
+                (candidate.priority === current.priority && candidate.sequence < current.sequence)) {
+                best = i;
+            }
+        }
+
+        return this.queued.splice(best, 1)[0];
+    }
+
+    private start(entry: QueuedTask): void {
+        ++this.running;
+        const signal: CancellationSignal = this.controller.signal;
+        // Also catches tasks that throw synchronously.
+        const execution: Promise<any> = new Promise<any>(resolve => resolve(entry.task(signal)));
+
+        // The caller stops waiting when cancelled, but the slot is only freed
+        // once the task itself settled, a cancelled task may still be running.
+        raceCancellation(execution, signal).then(entry.resolve, entry.reject);
+        const finish = (): void => {
+            --this.running;
+            this.next();
+            this.notifyIfIdle();
+        };
+        execution.then(finish, finish);
+    }
+
+    private notifyIfIdle(): void {
+        if (this.running === 0 && this.queued.length === 0) {
+            for (const listener of this.idleListeners.splice(0)) {
+                listener();
+            }
+        }
+    }
+}
+
+export interface RunTasksOptions {
+    concurrency: number;
+    // Stop on the first error (default), or run all tasks
+    // and report every error at the end.
+    stopOnError?: boolean;
+}
+
+export class TaskPoolError<T> extends Error {
+    public readonly name: string = 'TaskPoolError';
+
+    // Results are in the same order as the tasks.
+    constructor(public readonly results: Settled<T>[]) {
+        super(`${results.filter(result => result.status === 'rejected').length} of ${results.length} task(s) failed.`);
+    }
+
+    public get errors(): any[] {
+        return this.results.reduce(
+            (errors: any[], result: Settled<T>) => {
+                if (result.status === 'rejected') {
+                    errors.push(result.reason);
+                }
+
+                return errors;
+            },
+            []);
+    }
+}
+
+// Runs all tasks with limited concurrency and returns the
+// results in the order of the tasks.
+export async function runTasks<T>(tasks: Task<T>[], options: RunTasksOptions): Promise<T[]> {
+    const { concurrency, stopOnError = true } = options;
+    const queue: TaskQueue = new TaskQueue(concurrency);
+
+    if (stopOnError) {
+        try {
+            return await Promise.all(tasks.map(task => queue.add(task)));
+        } finally {
+            // Nothing to cancel when all tasks succeeded.
+            queue.cancel();
+        }
+    }
+
+    const results: Settled<T>[] = await Promise.all(tasks.map(task => queue.add(task).then(
+        (value: T): Settled<T> => ({ status: 'fulfilled', value }),
+        (reason: any): Settled<T> => ({ status: 'rejected', reason }))));
+
+    if (results.some(result => result.status === 'rejected')) {
+        throw new TaskPoolError(results);
+    }
+
+    return results.map(result => (result as Fulfilled<T>).value);
+}
@@ -0,0 +1,144 @@
+import { CancellationController } from './cancellation';
+import { getClock } from './clock';
+import { delay } from './delay';
+
+export type ProgressEvent<T> =
+    | { kind: 'tick'; elapsed: number; percentage: number | undefined; }
+    | { kind: 'progress'; elapsed: number; percentage: number; }
+    | { kind: 'completed'; elapsed: number; value: T; }
+    | { kind: 'failed'; elapsed: number; reason: any; }
+    ;
+
+export interface ProgressOptions<T> {
+    // Milliseconds between two tick events.
+    interval: number;
+    // Called for every event, not only for ticks.
+    onTick?: (event: ProgressEvent<T>) => void;
+}
+
+// Producers that know how far they are can report a percentage.
+export type ProgressProducer<T> = (report: (percentage: number) => void) => Promise<T>;
+
+// Tracks a pending promise and emits events while it's pending.
+// Events can be consumed with "for await", the iteration ends
+// with the completed or failed event.
+export class Progress<T> implements AsyncIterable<ProgressEvent<T>> {
+    public readonly promise: Promise<T>;
+
+    // Only the events that an active iterator hasn't consumed yet, or the
+    // latest one without active iterators. firstIndex counts the dropped ones.
+    private readonly events: ProgressEvent<T>[] = [];
+    private firstIndex: number = 0;
+    private readonly cursors: Set<{ index: number; }> = new Set<{ index: number; }>();
+    private readonly waiters: (() => void)[] = [];
+    private readonly ticks: CancellationController = new CancellationController();
+    private readonly start: number = getClock().now();
+    private lastPercentage: number | undefined = undefined;
+    private finished: boolean = false;
+
+    constructor(producer: Promise<T> | ProgressProducer<T>, private readonly options: ProgressOptions<T>) {
+        this.promise = typeof producer === 'function'
+            ? producer(percentage => this.report(percentage))
+            : producer;
+
+        this.promise.then(
+            value => this.finish({ kind: 'completed', elapsed: this.elapsed(), value }),
+            reason => this.finish({ kind: 'failed', elapsed: this.elapsed(), reason }));
+
+        this.tick();
+    }
+
+    public get percentage(): number | undefined {
+        return this.lastPercentage;
+    }
+
+    public get isFinished(): boolean {
+        return this.finished;
+    }
+
+    public async *[Symbol.asyncIterator](): AsyncIterableIterator<ProgressEvent<T>> {
+        // Every iterator starts at the oldest retained event, so a late
+        // consumer still gets the latest state and the final event.
+        const cursor: { index: number; } = { index: this.firstIndex };
+        this.cursors.add(cursor);
+        try {
+            while (true) {
+                while (cursor.index >= this.firstIndex + this.events.length) {
+                    await new Promise<void>(resolve => this.waiters.push(resolve));
+                }
+
+                const event: ProgressEvent<T> = this.events[cursor.index - this.firstIndex];
+                ++cursor.index;
+                this.release();
+                yield event;
+
+                if (event.kind === 'completed' || event.kind === 'failed') {
+                    return;
+                }
+            }
+        } finally {
+            this.cursors.delete(cursor);
+            this.release();
+        }
+    }
+
+    private report(percentage: number): void {
+        if (this.finished) {
+            return;
+        }
+
+        this.lastPercentage = Math.min(100, Math.max(0, percentage));
+        this.emit({ kind: 'progress', elapsed: this.elapsed(), percentage: this.lastPercentage });
+    }
+
+    private async tick(): Promise<void> {
+        try {
+            while (true) {
+                await delay(this.options.interval, this.ticks.signal);
+                this.emit({ kind: 'tick', elapsed: this.elapsed(), percentage: this.lastPercentage });
+            }
+        } catch {
+            // Cancelled once the promise settled.
+        }
+    }
+
+    private finish(event: ProgressEvent<T>): void {
+        this.finished = true;
+        this.ticks.abort();
+        this.emit(event);
+    }
+
+    private emit(event: ProgressEvent<T>): void {
+        this.events.push(event);
+        this.release();
+        if (this.options.onTick !== undefined) {
+            this.options.onTick(event);
+        }
+
+        for (const waiter of this.waiters.splice(0)) {
+            waiter();
+        }
+    }
+
+    // Drops the events consumed by every active iterator, so a long running
+    // promise with a short interval doesn't keep all of its ticks.
+    private release(): void {
+        let keepFrom: number = this.firstIndex + this.events.length - 1;
+        this.cursors.forEach(cursor => keepFrom = Math.min(keepFrom, cursor.index));
+        if (keepFrom > this.firstIndex) {
+            this.events.splice(0, keepFrom - this.firstIndex);
+            this.firstIndex = keepFrom;
+        }
+    }
+
+    private elapsed(): number {
+        return getClock().now() - this.start;
+    }
+}
+
+export function trackProgress<T>(
+    producer: Promise<T> | ProgressProducer<T>,
+    options: ProgressOptions<T>
+): Progress<T> {
+    return new Progress(producer, options);
+}
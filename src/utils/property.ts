@@ -0,0 +1,337 @@
+import { createSeed, randomInt, RandomSource, SeededRandom } from './random';
+
+// A generated value together with smaller versions of it. Shrinking
+// walks this tree to find the simplest value that still fails.
+export interface Shrinkable<T> {
+    readonly value: T;
+    shrink(): Shrinkable<T>[];
+}
+
+export interface Arbitrary<T> {
+    generate(source: RandomSource): Shrinkable<T>;
+}
+
+function leaf<T>(value: T): Shrinkable<T> {
+    return { value, shrink: () => [] };
+}
+
+function mapShrinkable<T, U>(shrinkable: Shrinkable<T>, selector: (value: T) => U): Shrinkable<U> {
+    return {
+        value: selector(shrinkable.value),
+        shrink: () => shrinkable.shrink().map(smaller => mapShrinkable(smaller, selector))
+    };
+}
+
+export interface NumberOptions {
+    min?: number;
+    max?: number;
+    integer?: boolean;
+}
+
+function shrinkNumber(value: number, target: number, integer: boolean): Shrinkable<number> {
+    return {
+        value,
+        shrink: () => {
+            if (value === target) {
+                return [];
+            }
+
+            // Try the target first, then get closer to the value by halving
+            // the step, so large values shrink in logarithmic steps.
+            const candidates: number[] = [target];
+            for (let step = (value - target) / 2; Math.abs(step) >= (integer ? 1 : 1e-6); step /= 2) {
+                candidates.push(value - (integer ? Math.trunc(step) : step));
+            }
+            if (integer) {
+                candidates.push(value - Math.sign(value - target));
+            }
+
+            return candidates
+                .filter((candidate, index) => candidate !== value && candidates.indexOf(candidate) === index)
+                .map(candidate => shrinkNumber(candidate, target, integer));
+        }
+    };
+}
+
+function number(options: NumberOptions = {}): Arbitrary<number> {
+    const { min = -1000, max = 1000, integer = false } = options;
+    if (min > max) {
+        throw new RangeError(`min (${min}) must not be greater than max (${max}).`);
+    }
+
+    // Shrink towards zero, or the bound closest to it.
+    const target: number = Math.min(Math.max(0, min), max);
+    return {
+        generate: source => shrinkNumber(
+            integer ? randomInt(min, max, source) : min + source.next() * (max - min),
+            target,
+            integer)
+    };
+}
+
+function boolean(): Arbitrary<boolean> {
+    return {
+        generate: source => source.next() < 0.5
+            ? leaf(false)
+            : { value: true, shrink: () => [leaf(false)] }
+    };
+}
+
+export interface ArrayOptions {
+    minLength?: number;
+    maxLength?: number;
+}
+
+function shrinkArray<T>(items: Shrinkable<T>[], minLength: number): Shrinkable<T[]> {
+    return {
+        value: items.map(item => item.value),
+        shrink: () => {
+            const candidates: Shrinkable<T>[][] = [];
+
+            // First try to remove elements: everything, half, and each single one.
+            if (items.length > minLength) {
+                if (minLength === 0) {
+                    candidates.push([]);
+                }
+                if (items.length >= 2 && Math.ceil(items.length / 2) >= minLength) {
+                    candidates.push(items.slice(0, Math.ceil(items.length / 2)));
+                }
+                items.forEach((item, index) => candidates.push(items.filter((other, i) => i !== index)));
+            }
+
+            // Then try to shrink each element.
+            items.forEach((item, index) => {
+                for (const smaller of item.shrink()) {
+                    candidates.push(items.map((other, i) => i === index ? smaller : other));
+                }
+            });
+
+            return candidates.map(candidate => shrinkArray(candidate, minLength));
+        }
+    };
+}
+
+function array<T>(element: Arbitrary<T>, options: ArrayOptions = {}): Arbitrary<T[]> {
+    const { minLength = 0, maxLength = 10 } = options;
+    return {
+        generate: source => {
+            const length: number = randomInt(minLength, maxLength, source);
+            const items: Shrinkable<T>[] = [];
+            for (let i = 0; i < length; ++i) {
+                items.push(element.generate(source));
+            }
+
+            return shrinkArray(items, minLength);
+        }
+    };
+}
+
+export interface StringOptions extends ArrayOptions {
+    characters?: string;
+}
+
+const printableCharacters: string =
+    'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789 !"#$%&\'()*+,-./:;<=>?@[\\]^_`{|}~';
+
+function string(options: StringOptions = {}): Arbitrary<string> {
+    const { characters = printableCharacters } = options;
+
+    // Characters shrink towards the first available character.
+    const character: Arbitrary<string> = map(
+        number({ min: 0, max: characters.length - 1, integer: true }),
+        index => characters[index]);
+
+    return map(array(character, options), chars => chars.join(''));
+}
+
+// Picks one of the given values, shrinks towards the first one.
+function literal<T extends string | number | boolean | undefined | null>(...values: T[]): Arbitrary<T> {
+    if (values.length === 0) {
+        throw new RangeError('literal requires at least one value.');
+    }
+
+    return map(number({ min: 0, max: values.length - 1, integer: true }), index => values[index]);
+}
+
+function constant<T>(value: T): Arbitrary<T> {
+    return { generate: () => leaf(value) };
+}
+
+function shrinkRecord<T>(fields: { [P in keyof T]: Shrinkable<T[P]> }): Shrinkable<T> {
+    const keys: (keyof T)[] = Object.keys(fields) as (keyof T)[];
+    const value: Partial<T> = {};
+    for (const key of keys) {
+        value[key] = fields[key].value;
+    }
+
+    return {
+        value: value as T,
+        shrink: () => {
+            const candidates: Shrinkable<T>[] = [];
+            for (const key of keys) {
+                for (const smaller of fields[key].shrink()) {
+                    const shrunkFields: { [P in keyof T]: Shrinkable<T[P]> } = Object.assign({}, fields);
+                    shrunkFields[key] = smaller;
+                    candidates.push(shrinkRecord(shrunkFields));
+                }
+            }
+
+            return candidates;
+        }
+    };
+}
+
+function record<T>(shape: { [P in keyof T]: Arbitrary<T[P]> }): Arbitrary<T> {
+    return {
+        generate: source => {
+            const fields: Partial<{ [P in keyof T]: Shrinkable<T[P]> }> = {};
+            for (const key of Object.keys(shape) as (keyof T)[]) {
+                fields[key] = shape[key].generate(source);
+            }
+
+            return shrinkRecord(fields as { [P in keyof T]: Shrinkable<T[P]> });
+        }
+    };
+}
+
+function union<T1, T2>(a1: Arbitrary<T1>, a2: Arbitrary<T2>): Arbitrary<T1 | T2>;
+function union<T1, T2, T3>(a1: Arbitrary<T1>, a2: Arbitrary<T2>, a3: Arbitrary<T3>): Arbitrary<T1 | T2 | T3>;
+function union<T1, T2, T3, T4>(
+    a1: Arbitrary<T1>, a2: Arbitrary<T2>, a3: Arbitrary<T3>, a4: Arbitrary<T4>
+): Arbitrary<T1 | T2 | T3 | T4>;
+function union<T1, T2, T3, T4, T5>(
+    a1: Arbitrary<T1>, a2: Arbitrary<T2>, a3: Arbitrary<T3>, a4: Arbitrary<T4>, a5: Arbitrary<T5>
+): Arbitrary<T1 | T2 | T3 | T4 | T5>;
+function union<T>(...arbitraries: Arbitrary<T>[]): Arbitrary<T>;
+function union(...arbitraries: Arbitrary<any>[]): Arbitrary<any> {
+    if (arbitraries.length === 0) {
+        throw new RangeError('union requires at least one arbitrary.');
+    }
+
+    // Each value shrinks within the arbitrary that generated it.
+    return {
+        generate: source => arbitraries[randomInt(0, arbitraries.length - 1, source)].generate(source)
+    };
+}
+
+// Generates undefined about a quarter of the time,
+// defined values shrink to undefined first.
+function optional<T>(arbitrary: Arbitrary<T>): Arbitrary<T | undefined> {
+    return {
+        generate: (source): Shrinkable<T | undefined> => {
+            if (source.next() < 0.25) {
+                return leaf(undefined);
+            }
+
+            const defined: Shrinkable<T> = arbitrary.generate(source);
+            return {
+                value: defined.value,
+                shrink: () => [leaf<T | undefined>(undefined), ...defined.shrink()]
+            };
+        }
+    };
+}
+
+function map<T, U>(arbitrary: Arbitrary<T>, selector: (value: T) => U): Arbitrary<U> {
+    return {
+        generate: source => mapShrinkable(arbitrary.generate(source), selector)
+    };
+}
+
+export const gen = {
+    array,
+    boolean,
+    constant,
+    literal,
+    map,
+    number,
+    optional,
+    record,
+    string,
+    union
+};
+
+export interface ForAllOptions {
+    runs?: number;
+    // Defaults to a new seed for every call, reported on failure.
+    seed?: number;
+    maxShrinks?: number;
+}
+
+export class PropertyFailure<T> extends Error {
+    public readonly name: string = 'PropertyFailure';
+
+    constructor(
+        public readonly seed: number,
+        public readonly runs: number,
+        public readonly original: T,
+        public readonly counterexample: T,
+        public readonly shrinks: number,
+        public readonly error: any
+    ) {
+        super(`Property failed after ${runs} run(s) with seed ${seed}, reproduce with { seed: ${seed} }.\n` +
+            `Counterexample (shrunk ${shrinks} time(s)): ${describe(counterexample)}\n` +
+            `Original: ${describe(original)}` +
+            (error !== undefined ? `\nError: ${error instanceof Error ? error.message : describe(error)}` : ''));
+    }
+}
+
+function describe(value: any): string {
+    if (value === undefined) {
+        return 'undefined';
+    }
+
+    try {
+        return JSON.stringify(value);
+    } catch {
+        return String(value);
+    }
+}
+
+// The predicate fails by returning false or by throwing.
+function check<T>(predicate: (value: T) => boolean | void, value: T): { failed: boolean; error?: any; } {
+    try {
+        return { failed: predicate(value) === false };
+    } catch (error) {
+        return { failed: true, error };
+    }
+}
+
+// Checks the predicate against randomly generated values. The first failing
+// value is shrunk to a minimal counterexample and reported with the seed.
+export function forAll<T>(
+    arbitrary: Arbitrary<T>,
+    predicate: (value: T) => boolean | void,
+    options: ForAllOptions = {}
+): void {
+    const { runs = 100, seed = createSeed(), maxShrinks = 1000 } = options;
+    const source: SeededRandom = new SeededRandom(seed);
+
+    for (let run = 1; run <= runs; ++run) {
+        const generated: Shrinkable<T> = arbitrary.generate(source);
+        let result = check(predicate, generated.value);
+        if (!result.failed) {
+            continue;
+        }
+
+        // Greedily descend into the first smaller value that still fails.
+        let current: Shrinkable<T> = generated;
+        let shrinks: number = 0;
+        let shrunk: boolean = true;
+        while (shrunk && shrinks < maxShrinks) {
+            shrunk = false;
+            for (const candidate of current.shrink()) {
+                const candidateResult = check(predicate, candidate.value);
+                if (candidateResult.failed) {
+                    current = candidate;
+                    result = candidateResult;
+                    ++shrinks;
+                    shrunk = true;
+                    break;
+                }
+            }
+        }
+
+        throw new PropertyFailure(seed, run, generated.value, current.value, shrinks, result.error);
+    }
+}
@@ -0,0 +1,131 @@
+import { log } from './log';
+
+// Returns numbers in the range [0, 1), like Math.random().
+export interface RandomSource {
+    next(): number;
+}
+
+// Small and fast seedable PRNG, see
+// https://github.com/bryc/code/blob/master/jshash/PRNGs.md#mulberry32
+export class SeededRandom implements RandomSource {
+    private state: number;
+
+    constructor(public readonly seed: number) {
+        this.state = seed >>> 0;
+    }
+
+    public next(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t: number = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+}
+
+export function createSeed(): number {
+    return Math.floor(Math.random() * 4294967296);
+}
+
+// Only the part of Node.js that is used here, the project has no Node.js typings.
+declare const process: { env: { [name: string]: string | undefined; }; argv: string[]; } | undefined;
+
+// Every run gets a new seed, unless one is set explicitly.
+let currentSource: RandomSource = new SeededRandom(createSeed());
+
+export function getRandomSource(): RandomSource {
+    return currentSource;
+}
+
+// Replaces the global source, e.g. with a stub in a test. Returns the
+// previous one, so it can be restored afterwards.
+export function setRandomSource(source: RandomSource): RandomSource {
+    const previous: RandomSource = currentSource;
+    currentSource = source;
+    return previous;
+}
+
+// Undefined if the global source is not seeded, e.g. a stub.
+export function getSeed(): number | undefined {
+    return currentSource instanceof SeededRandom ? currentSource.seed : undefined;
+}
+
+export function setSeed(seed: number): void {
+    currentSource = new SeededRandom(seed);
+}
+
+export function random(): number {
+    return currentSource.next();
+}
+
+// Runs the action with the source as the global source, restoring the
+// previous one afterwards. Covers functions without a source parameter:
+//   withSource(stub, () => oneOf('milk', 'cookie'))
+export function withSource<T>(source: RandomSource, action: () => T): T {
+    const previous: RandomSource = setRandomSource(source);
+    try {
+        return action();
+    } finally {
+        currentSource = previous;
+    }
+}
+
+// Runs the action with its own seeded source. Useful to reproduce a single call.
+export function withSeed<T>(seed: number, action: () => T): T {
+    return withSource(new SeededRandom(seed), action);
+}
+
+// Runs the action with a fresh seed and logs it when the action fails, so
+// the failure can be reproduced by passing the seed. The previous source is
+// restored afterwards, so actions running concurrently share the seed.
+export async function reportSeedOnFailure<T>(action: () => T | Promise<T>, seed: number = createSeed()): Promise<T> {
+    const previous: RandomSource = setRandomSource(new SeededRandom(seed));
+    try {
+        return await action();
+    } catch (error) {
+        log(`Failed with random seed ${seed}, reproduce with reportSeedOnFailure(action, ${seed}).`);
+        throw error;
+    } finally {
+        currentSource = previous;
+    }
+}
+
+// Seeds the global source of a script run from a --seed=123 argument or the
+// RANDOM_SEED environment variable, or with a fresh seed. The seed is logged,
+// so any run can be repeated, e.g. RANDOM_SEED=123 ts-node src/02-union-types-and-type-guards.ts
+export function seedFromEnvironment(): number {
+    let text: string | undefined = undefined;
+    if (typeof process !== 'undefined') {
+        const argument: string | undefined = process.argv.filter(arg => arg.startsWith('--seed=')).pop();
+        text = argument !== undefined ? argument.slice('--seed='.length) : process.env.RANDOM_SEED;
+    }
+
+    const seed: number = text !== undefined && text.trim() !== '' ? Number(text) : createSeed();
+    if (!Number.isInteger(seed)) {
+        throw new RangeError(`The random seed must be an integer, got '${text}'.`);
+    }
+
+    setSeed(seed);
+    log(`Random seed ${seed}, repeat this run with RANDOM_SEED=${seed}.`);
+    return seed;
+}
+
+// Returns an integer between min and max, both inclusive.
+export function randomInt(min: number, max: number, source: RandomSource = currentSource): number {
+    const lower: number = Math.ceil(min);
+    const upper: number = Math.floor(max);
+    return lower + Math.floor(source.next() * (upper - lower + 1));
+}
+
+// Returns a shuffled copy, the items are not modified.
+export function shuffle<T>(items: T[], source: RandomSource = currentSource): T[] {
+    const result: T[] = items.slice();
+
+    // Fisher-Yates shuffle.
+    for (let i = result.length - 1; i > 0; --i) {
+        const j: number = randomInt(0, i, source);
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+
+    return result;
+}
@@ -0,0 +1,8 @@
+import { withContract } from './contract';
+import { number, object, string } from './decoder';
+import { getObject as unsafeGetObject } from './unsafeJavaScript';
+
+// The declaration of getObject claims it always returns an object,
+// the implementation returns undefined when "really" is false.
+export const getObject: (really: boolean) => { name: string; age: number; } =
+    withContract('getObject', unsafeGetObject, object({ name: string, age: number }));
@@ -0,0 +1,166 @@
+import { DecodeError, DecodeResult, Decoder } from './decoder';
+import { formatValue } from './formatValue';
+
+// A dictionary without the gotchas of index signatures shown in lesson 07:
+// - get() returns V | undefined, the compiler forces the missing case.
+// - Writes are validated with the decoders of the schema, so a variable
+//   key can't store a boolean in a known string property.
+// - Keys are stored in a Map, so keys like "toString" or "__proto__"
+//   don't collide with the object prototype.
+
+export interface SafeMapOptions<V> {
+    // Used in error messages, e.g. 'countries'.
+    name?: string;
+    // Decoders for known keys, checked on every write of the key.
+    schema?: { [key: string]: Decoder<V>; };
+    // Decoder for all other keys. Without one, only known keys are checked.
+    values?: Decoder<V>;
+}
+
+export class MissingKeyError extends Error {
+    public readonly name: string = 'MissingKeyError';
+
+    // Messages look like "Missing key 'fr' in countries, available keys: 'de', 'nl'".
+    constructor(
+        public readonly keys: string[],
+        public readonly availableKeys: string[],
+        mapName?: string
+    ) {
+        super(`Missing key${keys.length === 1 ? '' : 's'} ${formatKeys(keys)}` +
+            `${mapName !== undefined ? ` in ${mapName}` : ''}, ` +
+            `available keys: ${availableKeys.length > 0 ? formatKeys(availableKeys) : 'none'}`);
+    }
+}
+
+function formatKeys(keys: string[], limit: number = 10): string {
+    const formatted: string = keys.slice(0, limit).map(key => formatValue(key)).join(', ');
+    return keys.length > limit ? `${formatted}, ... (${keys.length - limit} more)` : formatted;
+}
+
+export class SafeMap<K extends string, V> {
+    private readonly items: Map<K, V> = new Map<K, V>();
+
+    constructor(entries: [K, V][] = [], private readonly options: SafeMapOptions<V> = {}) {
+        for (const [key, value] of entries) {
+            this.set(key, value);
+        }
+    }
+
+    // Only own enumerable properties are copied.
+    public static fromObject<V>(object: { [key: string]: V; }, options?: SafeMapOptions<V>): SafeMap<string, V> {
+        return new SafeMap<string, V>(Object.keys(object).map((key): [string, V] => [key, object[key]]), options);
+    }
+
+    // The values are only validated when the options contain decoders.
+    public static fromJson<V>(json: string, options?: SafeMapOptions<V>): SafeMap<string, V> {
+        const object: any = JSON.parse(json);
+        if (typeof object !== 'object' || object === null || Array.isArray(object)) {
+            throw new TypeError(`Expected a JSON object, got ${Array.isArray(object) ? 'array' : formatValue(object)}.`);
+        }
+
+        return SafeMap.fromObject<V>(object, options);
+    }
+
+    public get size(): number {
+        return this.items.size;
+    }
+
+    public has(key: K): boolean {
+        return this.items.has(key);
+    }
+
+    public get(key: K): V | undefined {
+        return this.items.get(key);
+    }
+
+    public getOrThrow(key: K): V {
+        if (!this.items.has(key)) {
+            throw new MissingKeyError([key], this.keys(), this.options.name);
+        }
+
+        return this.items.get(key)!;
+    }
+
+    // Gets several keys at once, reporting all missing keys in one error:
+    //   const { de, nl } = countries.require('de', 'nl');
+    public require<TKey extends K>(...keys: TKey[]): { [P in TKey]: V } {
+        const missing: string[] = keys.filter(key => !this.items.has(key));
+        if (missing.length > 0) {
+            throw new MissingKeyError(missing, this.keys(), this.options.name);
+        }
+
+        const result: Partial<{ [P in TKey]: V }> = {};
+        for (const key of keys) {
+            result[key] = this.items.get(key);
+        }
+
+        return result as { [P in TKey]: V };
+    }
+
+    // Throws a DecodeError if the value doesn't match the decoder of the key.
+    public set(key: K, value: V): this {
+        const { schema = {}, values } = this.options;
+        const decoder: Decoder<V> | undefined = Object.prototype.hasOwnProperty.call(schema, key) ? schema[key] : values;
+        if (decoder !== undefined) {
+            const result: DecodeResult<V> = decoder.decode(value, this.describeKey(key));
+            if (!result.ok) {
+                throw new DecodeError(result.issues);
+            }
+        }
+
+        this.items.set(key, value);
+        return this;
+    }
+
+    public delete(key: K): boolean {
+        return this.items.delete(key);
+    }
+
+    public keys(): K[] {
+        return Array.from(this.items.keys());
+    }
+
+    public values(): V[] {
+        return Array.from(this.items.values());
+    }
+
+    public entries(): [K, V][] {
+        return Array.from(this.items.entries());
+    }
+
+    // The schema is not kept, because the values have another type.
+    public mapValues<TResult>(selector: (value: V, key: K) => TResult): SafeMap<K, TResult> {
+        return new SafeMap<K, TResult>(
+            this.entries().map(([key, value]): [K, TResult] => [key, selector(value, key)]),
+            { name: this.options.name });
+    }
+
+    public filter(predicate: (value: V, key: K) => boolean): SafeMap<K, V> {
+        return new SafeMap<K, V>(this.entries().filter(([key, value]) => predicate(value, key)), this.options);
+    }
+
+    public toObject(): { [key: string]: V; } {
+        const object: { [key: string]: V; } = {};
+        for (const [key, value] of this.items) {
+            // Unlike an assignment, this creates an own property for "__proto__" too.
+            Object.defineProperty(object, key, { value, enumerable: true, writable: true, configurable: true });
+        }
+
+        return object;
+    }
+
+    // Called by JSON.stringify().
+    public toJSON(): { [key: string]: V; } {
+        return this.toObject();
+    }
+
+    public toJson(): string {
+        return JSON.stringify(this.toObject());
+    }
+
+    // Path used in decode issues, e.g. "serverOptions.hostName".
+    private describeKey(key: string): string {
+        const name: string = this.options.name !== undefined ? this.options.name : '$';
+        return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? `${name}.${key}` : `${name}[${JSON.stringify(key)}]`;
+    }
+}
@@ -0,0 +1,427 @@
+import { assertNever, UnexpectedValueOptions } from './assertNever';
+import * as decoder from './decoder';
+
+// The Shape union of lesson 06, grown into a small geometry library.
+// Coordinates follow SVG: x grows to the right, y grows downwards.
+//
+// Every operation switches over the "kind" discriminator and ends with
+// assertNever(), so adding a variant fails to compile until it's handled
+// everywhere.
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+export interface Square {
+    kind: 'square';
+    // Top left corner.
+    origin: Point;
+    size: number;
+}
+
+export interface Rectangle {
+    kind: 'rectangle';
+    // Top left corner.
+    origin: Point;
+    width: number;
+    height: number;
+}
+
+export interface Circle {
+    kind: 'circle';
+    center: Point;
+    radius: number;
+}
+
+export interface Ellipse {
+    kind: 'ellipse';
+    center: Point;
+    radiusX: number;
+    radiusY: number;
+}
+
+export interface Triangle {
+    kind: 'triangle';
+    a: Point;
+    b: Point;
+    c: Point;
+}
+
+export interface Polygon {
+    kind: 'polygon';
+    // At least three points, see polygon(). The polygon is closed implicitly.
+    points: Point[];
+}
+
+export type Shape = Square | Rectangle | Circle | Ellipse | Triangle | Polygon;
+
+// The type can't require three points, so polygons are built with this
+// checked constructor, or decoded with shapeDecoder.
+export function polygon(points: Point[]): Polygon {
+    if (points.length < 3) {
+        throw new RangeError(`A polygon needs at least 3 points, got ${points.length}.`);
+    }
+
+    return { kind: 'polygon', points: points.slice() };
+}
+
+export interface BoundingBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+const shapeContext: UnexpectedValueOptions = { context: 'Shape', discriminant: 'kind' };
+
+function getPoints(shape: Triangle | Polygon): Point[] {
+    return shape.kind === 'triangle' ? [shape.a, shape.b, shape.c] : shape.points;
+}
+
+// Pairs of consecutive points, including the one closing the outline.
+function getEdges(points: Point[]): [Point, Point][] {
+    return points.map((point, index): [Point, Point] => [point, points[(index + 1) % points.length]]);
+}
+
+function distance(from: Point, to: Point): number {
+    return Math.sqrt((to.x - from.x) ** 2 + (to.y - from.y) ** 2);
+}
+
+export function getArea(shape: Shape): number {
+    switch (shape.kind) {
+        case 'square':
+            return shape.size * shape.size;
+
+        case 'rectangle':
+            return shape.width * shape.height;
+
+        case 'circle':
+            return Math.PI * shape.radius ** 2;
+
+        case 'ellipse':
+            return Math.PI * shape.radiusX * shape.radiusY;
+
+        case 'triangle':
+        case 'polygon':
+            // Shoelace formula, the sign depends on the orientation.
+            return Math.abs(getEdges(getPoints(shape))
+                .reduce((sum, [from, to]) => sum + from.x * to.y - to.x * from.y, 0)) / 2;
+
+        default:
+            return assertNever(shape, shapeContext);
+    }
+}
+
+export function getPerimeter(shape: Shape): number {
+    switch (shape.kind) {
+        case 'square':
+            return 4 * shape.size;
+
+        case 'rectangle':
+            return 2 * (shape.width + shape.height);
+
+        case 'circle':
+            return 2 * Math.PI * shape.radius;
+
+        case 'ellipse': {
+            // Ramanujan's approximation, exact for circles.
+            const { radiusX: a, radiusY: b } = shape;
+            return Math.PI * (3 * (a + b) - Math.sqrt((3 * a + b) * (a + 3 * b)));
+        }
+
+        case 'triangle':
+        case 'polygon':
+            return getEdges(getPoints(shape)).reduce((sum, [from, to]) => sum + distance(from, to), 0);
+
+        default:
+            return assertNever(shape, shapeContext);
+    }
+}
+
+export function getBoundingBox(shape: Shape): BoundingBox {
+    switch (shape.kind) {
+        case 'square':
+            return { x: shape.origin.x, y: shape.origin.y, width: shape.size, height: shape.size };
+
+        case 'rectangle':
+            return { x: shape.origin.x, y: shape.origin.y, width: shape.width, height: shape.height };
+
+        case 'circle':
+            return {
+                x: shape.center.x - shape.radius,
+                y: shape.center.y - shape.radius,
+                width: 2 * shape.radius,
+                height: 2 * shape.radius
+            };
+
+        case 'ellipse':
+            return {
+                x: shape.center.x - shape.radiusX,
+                y: shape.center.y - shape.radiusY,
+                width: 2 * shape.radiusX,
+                height: 2 * shape.radiusY
+            };
+
+        case 'triangle':
+        case 'polygon': {
+            const points: Point[] = getPoints(shape);
+            if (points.length === 0) {
+                // Math.min() of nothing is Infinity, which would spread into the SVG viewBox.
+                throw new RangeError('A polygon without points has no bounding box.');
+            }
+
+            const xs: number[] = points.map(point => point.x);
+            const ys: number[] = points.map(point => point.y);
+            const x: number = Math.min(...xs);
+            const y: number = Math.min(...ys);
+            return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+        }
+
+        default:
+            return assertNever(shape, shapeContext);
+    }
+}
+
+// Bounding box of all shapes, undefined if there are none.
+export function getCombinedBoundingBox(shapes: Shape[]): BoundingBox | undefined {
+    if (shapes.length === 0) {
+        return undefined;
+    }
+
+    const boxes: BoundingBox[] = shapes.map(getBoundingBox);
+    const x: number = Math.min(...boxes.map(box => box.x));
+    const y: number = Math.min(...boxes.map(box => box.y));
+    return {
+        x,
+        y,
+        width: Math.max(...boxes.map(box => box.x + box.width)) - x,
+        height: Math.max(...boxes.map(box => box.y + box.height)) - y
+    };
+}
+
+function isOnEdge(point: Point, [from, to]: [Point, Point]): boolean {
+    const epsilon: number = 1e-9;
+    const cross: number = (to.x - from.x) * (point.y - from.y) - (to.y - from.y) * (point.x - from.x);
+    return Math.abs(cross) <= epsilon * Math.max(1, distance(from, to)) &&
+        point.x >= Math.min(from.x, to.x) - epsilon && point.x <= Math.max(from.x, to.x) + epsilon &&
+        point.y >= Math.min(from.y, to.y) - epsilon && point.y <= Math.max(from.y, to.y) + epsilon;
+}
+
+// Points on the outline are contained in the shape.
+export function containsPoint(shape: Shape, point: Point): boolean {
+    switch (shape.kind) {
+        case 'square':
+        case 'rectangle': {
+            const box: BoundingBox = getBoundingBox(shape);
+            return point.x >= box.x && point.x <= box.x + box.width &&
+                point.y >= box.y && point.y <= box.y + box.height;
+        }
+
+        case 'circle':
+            return distance(shape.center, point) <= shape.radius;
+
+        case 'ellipse':
+            return ((point.x - shape.center.x) / shape.radiusX) ** 2 +
+                ((point.y - shape.center.y) / shape.radiusY) ** 2 <= 1;
+
+        case 'triangle':
+        case 'polygon': {
+            const edges: [Point, Point][] = getEdges(getPoints(shape));
+            if (edges.some(edge => isOnEdge(point, edge))) {
+                return true;
+            }
+
+            // Ray casting: count the edges crossed by a ray to the right.
+            let inside: boolean = false;
+            for (const [from, to] of edges) {
+                if ((from.y > point.y) !== (to.y > point.y) &&
+                    point.x < from.x + (point.y - from.y) * (to.x - from.x) / (to.y - from.y)) {
+                    inside = !inside;
+                }
+            }
+
+            return inside;
+        }
+
+        default:
+            return assertNever(shape, shapeContext);
+    }
+}
+
+function mapPoint(point: Point, transform: (value: number, axis: 'x' | 'y') => number): Point {
+    return { x: transform(point.x, 'x'), y: transform(point.y, 'y') };
+}
+
+// Moves every point of the shape, the size stays the same.
+export function translate(shape: Shape, dx: number, dy: number): Shape {
+    const move = (point: Point): Point => mapPoint(point, (value, axis) => value + (axis === 'x' ? dx : dy));
+
+    switch (shape.kind) {
+        case 'square':
+        case 'rectangle':
+            return Object.assign({}, shape, { origin: move(shape.origin) });
+
+        case 'circle':
+        case 'ellipse':
+            return Object.assign({}, shape, { center: move(shape.center) });
+
+        case 'triangle':
+            return { kind: 'triangle', a: move(shape.a), b: move(shape.b), c: move(shape.c) };
+
+        case 'polygon':
+            return polygon(shape.points.map(move));
+
+        default:
+            return assertNever(shape, shapeContext);
+    }
+}
+
+// Scales the shape by the factor relative to the anchor, which stays in place.
+export function scale(shape: Shape, factor: number, anchor: Point = { x: 0, y: 0 }): Shape {
+    if (factor < 0) {
+        throw new RangeError(`factor (${factor}) must not be negative.`);
+    }
+
+    const stretch = (point: Point): Point => mapPoint(point, (value, axis) => anchor[axis] + (value - anchor[axis]) * factor);
+
+    switch (shape.kind) {
+        case 'square':
+            return { kind: 'square', origin: stretch(shape.origin), size: shape.size * factor };
+
+        case 'rectangle':
+            return {
+                kind: 'rectangle',
+                origin: stretch(shape.origin),
+                width: shape.width * factor,
+                height: shape.height * factor
+            };
+
+        case 'circle':
+            return { kind: 'circle', center: stretch(shape.center), radius: shape.radius * factor };
+
+        case 'ellipse':
+            return {
+                kind: 'ellipse',
+                center: stretch(shape.center),
+                radiusX: shape.radiusX * factor,
+                radiusY: shape.radiusY * factor
+            };
+
+        case 'triangle':
+            return { kind: 'triangle', a: stretch(shape.a), b: stretch(shape.b), c: stretch(shape.c) };
+
+        case 'polygon':
+            return polygon(shape.points.map(stretch));
+
+        default:
+            return assertNever(shape, shapeContext);
+    }
+}
+
+// JSON
+
+const point = decoder.object({ x: decoder.number, y: decoder.number });
+
+// Keeps the "at least three points" invariant of polygons, fewer points
+// would break the bounding box and the SVG output.
+const polygonPoints: decoder.Decoder<Point[]> = new decoder.Decoder<Point[]>('Point[]', (input, path) => {
+    const result: decoder.DecodeResult<Point[]> = decoder.array(point).decode(input, path);
+    if (!result.ok || result.value.length >= 3) {
+        return result;
+    }
+
+    const expected: string = 'at least 3 points';
+    const actual: string = `${result.value.length} point(s)`;
+    return { ok: false, issues: [{ path, expected, actual, message: `${path}: expected ${expected}, got ${actual}` }] };
+});
+
+export const shapeDecoder: decoder.Decoder<Shape> = decoder.discriminatedUnion('kind', {
+    square: decoder.object({ origin: point, size: decoder.number }),
+    rectangle: decoder.object({ origin: point, width: decoder.number, height: decoder.number }),
+    circle: decoder.object({ center: point, radius: decoder.number }),
+    ellipse: decoder.object({ center: point, radiusX: decoder.number, radiusY: decoder.number }),
+    triangle: decoder.object({ a: point, b: point, c: point }),
+    polygon: decoder.object({ points: polygonPoints })
+});
+
+export function toJson(shapes: Shape[]): string {
+    return JSON.stringify(shapes);
+}
+
+// Validates the JSON, the issues name the invalid shape, e.g.
+// "$[1].radius: expected number, got undefined".
+export function fromJson(json: string): decoder.DecodeResult<Shape[]> {
+    return decoder.parseJson(decoder.array(shapeDecoder), json);
+}
+
+// SVG
+
+export interface SvgStyle {
+    fill?: string;
+    stroke?: string;
+    strokeWidth?: number;
+}
+
+// Avoids rounding noise like 0.30000000000000004 in the output.
+function formatNumber(value: number): string {
+    return String(Math.round(value * 1000) / 1000);
+}
+
+function escapeAttribute(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+function formatAttributes(attributes: { [name: string]: string | number | undefined; }): string {
+    return Object.keys(attributes)
+        .filter(name => attributes[name] !== undefined)
+        .map(name => {
+            const value: string | number = attributes[name]!;
+            return `${name}="${typeof value === 'number' ? formatNumber(value) : escapeAttribute(value)}"`;
+        })
+        .join(' ');
+}
+
+function formatPoints(points: Point[]): string {
+    return points.map(point => `${formatNumber(point.x)},${formatNumber(point.y)}`).join(' ');
+}
+
+export function toSvgElement(shape: Shape, style: SvgStyle = {}): string {
+    const styleAttributes = { 'fill': style.fill, 'stroke': style.stroke, 'stroke-width': style.strokeWidth };
+
+    switch (shape.kind) {
+        case 'square':
+        case 'rectangle': {
+            const box: BoundingBox = getBoundingBox(shape);
+            return `<rect ${formatAttributes(Object.assign({}, box, styleAttributes))}/>`;
+        }
+
+        case 'circle':
+            return `<circle ${formatAttributes(Object.assign(
+                { cx: shape.center.x, cy: shape.center.y, r: shape.radius },
+                styleAttributes))}/>`;
+
+        case 'ellipse':
+            return `<ellipse ${formatAttributes(Object.assign(
+                { cx: shape.center.x, cy: shape.center.y, rx: shape.radiusX, ry: shape.radiusY },
+                styleAttributes))}/>`;
+
+        case 'triangle':
+        case 'polygon':
+            return `<polygon ${formatAttributes(Object.assign({ points: formatPoints(getPoints(shape)) }, styleAttributes))}/>`;
+
+        default:
+            return assertNever(shape, shapeContext);
+    }
+}
+
+// A standalone SVG document, the view box fits all shapes.
+export function toSvg(shapes: Shape[], style: SvgStyle = {}): string {
+    const box: BoundingBox = getCombinedBoundingBox(shapes) || { x: 0, y: 0, width: 0, height: 0 };
+    const viewBox: string = [box.x, box.y, box.width, box.height].map(formatNumber).join(' ');
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${viewBox}">`,
+        ...shapes.map(shape => `    ${toSvgElement(shape, style)}`),
+        `</svg>`
+    ].join('\n');
+}
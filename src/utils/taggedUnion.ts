@@ -0,0 +1,113 @@
+import { match } from './match';
+
+// Derives a discriminated union and its helpers from a single definition,
+// instead of writing each interface, the union and the switch by hand:
+//   const Shape = taggedUnion({
+//       square: payload<{ size: number }>(),
+//       circle: payload<{ radius: number }>()
+//   });
+//   type Shape = TaggedUnionType<typeof Shape>;
+//
+//   const circle: Shape = Shape.circle({ radius: 5 }); // { kind: 'circle', radius: 5 }
+//   Shape.is.circle(circle); // true
+//   Shape.fold(circle, { square: s => s.size ** 2, circle: c => Math.PI * c.radius ** 2 });
+
+// Describes the properties of a variant. Only exists for the type
+// information, at runtime it's an empty object.
+export interface Payload<T> {
+    // Never set, but required to infer T.
+    readonly payloadType?: T;
+}
+
+export function payload<T extends object = {}>(): Payload<T> {
+    return {};
+}
+
+export interface TaggedUnionDefinition {
+    [kind: string]: Payload<object>;
+}
+
+type PayloadOf<TPayload> = TPayload extends Payload<infer T> ? T : never;
+
+export type TaggedUnionKind<TDefinition> = Extract<keyof TDefinition, string>;
+
+// The variants keyed by their kind, each with its discriminant property.
+export type TaggedVariants<TDefinition, TDiscriminant> = {
+    [K in TaggedUnionKind<TDefinition>]: PayloadOf<TDefinition[K]> & { [D in Extract<TDiscriminant, string>]: K }
+};
+
+export type TaggedUnionVariant<TDefinition, TDiscriminant, K extends TaggedUnionKind<TDefinition>> =
+    TaggedVariants<TDefinition, TDiscriminant>[K];
+
+// Variants without properties can be constructed without an argument.
+export type VariantConstructors<TDefinition, TDiscriminant> = {
+    [K in TaggedUnionKind<TDefinition>]: {} extends PayloadOf<TDefinition[K]>
+        ? (payload?: PayloadOf<TDefinition[K]>) => TaggedUnionVariant<TDefinition, TDiscriminant, K>
+        : (payload: PayloadOf<TDefinition[K]>) => TaggedUnionVariant<TDefinition, TDiscriminant, K>
+};
+
+export type VariantGuards<TDefinition, TDiscriminant> = {
+    [K in TaggedUnionKind<TDefinition>]: (value: any) => value is TaggedUnionVariant<TDefinition, TDiscriminant, K>
+};
+
+// One handler for every kind, so adding a variant breaks the build
+// until it's handled, just like a switch with assertNever.
+export type FoldHandlers<TDefinition, TDiscriminant, R> = {
+    [K in TaggedUnionKind<TDefinition>]: (variant: TaggedUnionVariant<TDefinition, TDiscriminant, K>) => R
+};
+
+export interface TaggedUnionHelpers<TDefinition, TDiscriminant> {
+    readonly discriminant: TDiscriminant;
+    // Frozen, in the order of the definition.
+    readonly kinds: ReadonlyArray<TaggedUnionKind<TDefinition>>;
+    readonly is: VariantGuards<TDefinition, TDiscriminant>;
+    fold<R>(
+        value: TaggedVariants<TDefinition, TDiscriminant>[TaggedUnionKind<TDefinition>],
+        handlers: FoldHandlers<TDefinition, TDiscriminant, R>
+    ): R;
+}
+
+export type TaggedUnion<TDefinition, TDiscriminant> =
+    VariantConstructors<TDefinition, TDiscriminant> & TaggedUnionHelpers<TDefinition, TDiscriminant>;
+
+export type TaggedUnionType<TUnion> = TUnion extends TaggedUnionHelpers<infer TDefinition, infer TDiscriminant>
+    ? TaggedVariants<TDefinition, TDiscriminant>[TaggedUnionKind<TDefinition>]
+    : never;
+
+// Kinds that would hide the helpers.
+const reservedKinds: string[] = ['discriminant', 'kinds', 'is', 'fold'];
+
+// The discriminant defaults to "kind", pass e.g. 'type' to use another property.
+export function taggedUnion<TDefinition extends TaggedUnionDefinition, TDiscriminant extends string = 'kind'>(
+    definition: TDefinition,
+    discriminant?: TDiscriminant
+): TaggedUnion<TDefinition, TDiscriminant> {
+    const discriminantKey: string = discriminant !== undefined ? discriminant : 'kind';
+    const kinds: string[] = Object.keys(definition);
+    for (const kind of kinds) {
+        if (reservedKinds.indexOf(kind) !== -1) {
+            throw new RangeError(`The kind '${kind}' is reserved, it would hide the helper of the same name.`);
+        }
+    }
+
+    const constructors: { [kind: string]: (payload?: object) => object; } = {};
+    const guards: { [kind: string]: (value: any) => boolean; } = {};
+    for (const kind of kinds) {
+        // The discriminant is assigned last, so the payload can't override it.
+        constructors[kind] = (payload = {}) => Object.assign({}, payload, { [discriminantKey]: kind });
+        guards[kind] = value => typeof value === 'object' && value !== null && value[discriminantKey] === kind;
+    }
+
+    // The runtime objects are keyed by plain strings. The assertions attach
+    // the per-kind types, and the compiler still rejects them when the
+    // function types of the entries don't fit the mapped types.
+    const helpers: TaggedUnionHelpers<TDefinition, TDiscriminant> = {
+        discriminant: discriminantKey as TDiscriminant,
+        kinds: Object.freeze(kinds) as ReadonlyArray<TaggedUnionKind<TDefinition>>,
+        is: Object.freeze(guards) as VariantGuards<TDefinition, TDiscriminant>,
+        fold: <R>(value: object, handlers: { [kind: string]: (variant: any) => R; }): R =>
+            match<{ [key: string]: any; }, string>(value, discriminantKey)<R>(handlers)
+    };
+
+    return Object.assign(constructors as VariantConstructors<TDefinition, TDiscriminant>, helpers);
+}